@@ -0,0 +1,59 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { dataQualityService } from '../src/services/index.js';
+import { logger } from '../src/utils/logger.js';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const json = args.includes('--json');
+
+  // Show help
+  if (args.includes('--help')) {
+    console.log(`
+Usage: npm run data-quality -- [options]
+
+Options:
+  --json    Print the full report as JSON
+  --help    Show this help message
+
+Exits with code 1 when any error-level issue is found.
+`);
+    process.exit(0);
+  }
+
+  try {
+    const report = await dataQualityService.checkDataQuality();
+
+    if (json) {
+      console.log(JSON.stringify(report, null, 2));
+    } else {
+      console.log('\nData Quality Report:');
+      console.log(`  Products checked: ${report.productsChecked}`);
+      console.log(`  Synonyms checked: ${report.synonymsChecked}`);
+      console.log(`  Rows with issues: ${report.totals.rowsWithIssues}`);
+      console.log(`  Errors: ${report.totals.errors}`);
+      console.log(`  Warnings: ${report.totals.warnings}`);
+
+      if (report.unknownColumns.products.length > 0 || report.unknownColumns.synonyms.length > 0) {
+        console.log('\nUnknown columns:');
+        for (const column of report.unknownColumns.products) console.log(`  Products ${column}`);
+        for (const column of report.unknownColumns.synonyms) console.log(`  Synonyms ${column}`);
+      }
+
+      for (const row of report.rows) {
+        console.log(`\n${row.tab} row ${row.row}: ${row.label}`);
+        for (const issue of row.issues) {
+          console.log(`  [${issue.severity.toUpperCase()}] ${issue.column}: ${issue.message}`);
+        }
+      }
+    }
+
+    process.exit(report.totals.errors > 0 ? 1 : 0);
+  } catch (error) {
+    logger.error('Data quality check failed', { error });
+    process.exit(1);
+  }
+}
+
+main();
@@ -39,14 +39,24 @@ Examples:
   try {
     const stats = await scraperService.runScraper({ mode, dryRun, categoryUrl, limit });
 
-    logger.info('Scraper completed successfully', stats);
+    const { changes, ...counts } = stats;
+    logger.info('Scraper completed successfully', counts);
     console.log('\nScraper Results:');
     console.log(`  Pages crawled: ${stats.pagesCrawled}`);
     console.log(`  New products: ${stats.newProducts}`);
     console.log(`  Updated products: ${stats.updatedProducts}`);
     console.log(`  Unchanged: ${stats.unchanged}`);
+    console.log(`  Removed from website: ${stats.removedProducts}`);
+    console.log(`  Back on website: ${stats.restoredProducts}`);
     console.log(`  Errors: ${stats.errors}`);
 
+    for (const change of changes) {
+      console.log(`\n  Row ${change.rowNumber} (${change.url}):`);
+      for (const field of change.fields) {
+        console.log(`    ${field.field}: "${field.before}" -> "${field.after}"`);
+      }
+    }
+
     if (dryRun) {
       console.log('\n(Dry run - no changes written to sheet)');
     }
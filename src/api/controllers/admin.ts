@@ -0,0 +1,103 @@
+import { Request, Response, NextFunction } from 'express';
+import { dataQualityService, parserService, sourcingRuleService } from '../../services/index.js';
+import { SourcingRulesStatus } from '../../services/rules.js';
+import { createError } from '../middleware/error.js';
+
+/**
+ * GET /api/admin/data-quality
+ * Check Products and Synonyms rows for values the agent would misread
+ */
+export async function getDataQuality(
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const report = await dataQualityService.checkDataQuality();
+    res.json({ success: true, data: report });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * GET /api/admin/sourcing-rules
+ * Show the active sourcing rules, in evaluation order
+ */
+export async function getSourcingRules(
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    res.json({ success: true, data: sourcingRuleService.getStatus() });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /api/admin/sourcing-rules/reload
+ * Reload sourcing rules from their file or sheet tab without a restart
+ */
+export async function reloadSourcingRules(
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    let status: SourcingRulesStatus;
+    try {
+      status = await sourcingRuleService.reload();
+    } catch (error) {
+      const { lastErrors } = sourcingRuleService.getStatus();
+      if (lastErrors.length > 0) {
+        throw createError('Sourcing rules are invalid; previous rules are still active', 422, 'INVALID_SOURCING_RULES', {
+          errors: lastErrors,
+        });
+      }
+      throw createError(
+        `Failed to load sourcing rules: ${error instanceof Error ? error.message : String(error)}`,
+        502,
+        'SOURCING_RULES_UNAVAILABLE'
+      );
+    }
+
+    res.json({ success: true, data: status });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * GET /api/admin/parser
+ * Query parser success, repair and fallback counts, with the reason for each fallback
+ */
+export async function getParserStats(
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    res.json({ success: true, data: parserService.getStats() });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /api/admin/parser/cache/clear
+ * Drop every cached parse, e.g. after changing how queries are parsed
+ */
+export async function clearParserCache(
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const cleared = await parserService.clearCache();
+    res.json({ success: true, data: { cleared, cache: parserService.getStats().cache } });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -1,20 +1,48 @@
 import { Request, Response, NextFunction } from 'express';
-import { parserService, matcherService, cacheService } from '../../services/index.js';
+import {
+  parserService,
+  matcherService,
+  cacheService,
+  editorService,
+  synonymService,
+  conversationService,
+} from '../../services/index.js';
+import { SynonymEntry } from '../../services/synonyms.js';
+import { PRODUCT_COLUMN_OWNERS } from '../../services/layout.js';
+import { formatDate, parseDate } from '../../services/calendar.js';
+import { piecesDetail } from '../../services/quantity.js';
 import { createError } from '../middleware/error.js';
-import { generateAvailabilitySummary, generateMultiAvailabilitySummary, parseQuantityFromQuery } from '../../utils/helpers.js';
+import { generateAvailabilitySummary, generateMultiAvailabilitySummary } from '../../utils/helpers.js';
 import { logger } from '../../utils/logger.js';
 import {
   ProductSearchRequest,
   ProductSearchResponse,
   AvailabilityRequest,
   AvailabilityResponse,
+  ColorLineAvailability,
+  ConversationTurn,
+  ParsedQuery,
   SynonymsResponse,
   MultiAvailabilityRequest,
   MultiAvailabilityResponse,
   ProductAvailabilityResult,
   ResolveRequest,
   ResolveResponse,
+  ProductUpdateRequest,
+  ProductUpdateResponse,
+  SynonymCreateRequest,
+  SynonymUpdateRequest,
+  SynonymResponse,
 } from '../../types/api.js';
+import {
+  ColorMatchType,
+  ProductAlternative,
+  ProductMatch,
+  SourcingRoute,
+  Synonym,
+  SynonymCheck,
+  SynonymResolution,
+} from '../../types/product.js';
 
 /**
  * POST /api/product/search
@@ -27,19 +55,22 @@ export async function searchProducts(
 ): Promise<void> {
   try {
     const { query, includeSourcing = true } = req.body;
+    const explain = wantsExplain(req);
 
-    logger.info('Product search request', { query, includeSourcing });
+    logger.info('Product search request', { query, includeSourcing, explain });
 
     if (!query) {
       throw createError('Query is required', 400, 'INVALID_REQUEST', { field: 'query' });
     }
 
     // Resolve synonym if any
-    const synonymResolved = matcherService.resolveSynonym(query);
+    const synonymMatch = matcherService.matchSynonyms(query);
+    const synonymResolved = synonymMatch.resolved;
     const effectiveQuery = synonymResolved || query;
 
-    // Find products
-    const products = matcherService.findProducts(effectiveQuery);
+    // Find products, best match first
+    const hits = matcherService.searchProducts(effectiveQuery);
+    const products = hits.map((hit) => hit.product);
 
     // Log sourcing summary for each product
     const sourcingSummary = products.map((p) => ({
@@ -57,8 +88,10 @@ export async function searchProducts(
     const response: ProductSearchResponse = {
       query,
       synonymResolved,
-      products: products.map((p) => ({
+      products: hits.map(({ product: p, score, matchReason }, i) => ({
         name: p.name,
+        score,
+        matchReason,
         category: p.category,
         url: p.url,
         websiteColors: p.websiteColors,
@@ -79,8 +112,10 @@ export async function searchProducts(
             },
           },
         }),
+        ...(explain && { trace: { matchedOn: matcherService.describeMatch(hits[i], effectiveQuery) } }),
       })),
       totalFound: products.length,
+      ...(explain && { trace: { synonymChecks: [synonymCheck('query', query, synonymMatch)] } }),
     };
 
     res.json({ success: true, data: response });
@@ -99,34 +134,62 @@ export async function checkAvailability(
   next: NextFunction
 ): Promise<void> {
   try {
-    let { query, quantity, urgent = false } = req.body;
+    const { query, quantity, urgent = false, deadline, urgentQuantity, conversationId } = req.body;
+    const explain = wantsExplain(req);
 
-    logger.info('Availability check request', { query, quantity, urgent });
+    logger.info('Availability check request', {
+      query,
+      quantity,
+      urgent,
+      deadline,
+      urgentQuantity,
+      explain,
+      conversationId,
+    });
 
     if (!query) {
       throw createError('Query is required', 400, 'INVALID_REQUEST', { field: 'query' });
     }
 
-    // If quantity not provided in request body, parse from query text
-    if (quantity === null || quantity === undefined) {
-      const parsedQuantity = parseQuantityFromQuery(query);
-      if (parsedQuantity !== null) {
-        quantity = parsedQuantity;
-        logger.info(`Parsed quantity ${quantity} from query: "${query}"`);
-      }
+    if (conversationId !== undefined && (typeof conversationId !== 'string' || !/^[\w.:-]{1,100}$/.test(conversationId))) {
+      throw createError(
+        'conversationId must be 1-100 letters, digits, ".", ":", "_" or "-"',
+        400,
+        'INVALID_REQUEST',
+        { field: 'conversationId' }
+      );
     }
 
-    // Try to resolve synonym on original query FIRST (before Claude loses context)
-    const synonymFromQuery = matcherService.resolveSynonym(query);
+    const requestDeadline = parseDeadline(deadline);
 
-    // Parse query using Claude
-    const parsed = await parserService.parseQuery(query);
+    if (urgentQuantity !== undefined && (!Number.isInteger(urgentQuantity) || urgentQuantity <= 0)) {
+      throw createError('urgentQuantity must be a positive whole number', 400, 'INVALID_REQUEST', {
+        field: 'urgentQuantity',
+      });
+    }
+
+    // Try to resolve synonym on original query FIRST (before Claude loses context)
+    const synonymFromQuery = matcherService.matchSynonyms(query);
+
+    // Parse query using Claude; values in the request body win over ones in the query
+    const queryParsed = await parserService.parseQuery(query);
+    const requested: ParsedQuery = {
+      ...queryParsed,
+      ...(quantity ? { quantity, quantityDetail: piecesDetail(quantity) } : {}),
+      urgent: urgent || queryParsed.urgent,
+      deadline: requestDeadline ? formatDate(requestDeadline) : queryParsed.deadline,
+    };
 
-    // Also try to resolve synonym on parsed product type
-    const synonymFromParsed = matcherService.resolveSynonym(parsed.productType);
+    // In a conversation, fill in what a follow-up leaves out from earlier queries
+    const followUp = conversationId ? conversationService.followUp(conversationId, query, requested) : null;
+    const parsed = followUp ? followUp.parsed : requested;
+    const deadlineDate = parsed.deadline ? parseDate(parsed.deadline) : null;
 
-    // Use whichever synonym resolved (prefer original query match)
-    const synonymResolved = synonymFromQuery || synonymFromParsed;
+    // Otherwise try to resolve synonym on parsed product type
+    const synonymMatch = synonymFromQuery.resolved
+      ? synonymFromQuery
+      : matcherService.matchSynonyms(parsed.productType);
+    const synonymResolved = synonymMatch.resolved;
 
     // Determine effective search term (synonym takes priority)
     const effectiveProductType = synonymResolved || parsed.productType;
@@ -135,14 +198,22 @@ export async function checkAvailability(
     const matches = matcherService.getProductMatches(
       effectiveProductType,
       parsed.color,
-      quantity || parsed.quantity,
-      urgent || parsed.urgent
+      parsed.quantity,
+      parsed.urgent,
+      { deadline: deadlineDate, urgentQuantity, explain, synonym: synonymMatch }
     );
 
     // Determine if color is available in any product
     const colorAvailable = matches.some(
       (m) => m.colorMatch.onWebsite || m.colorMatch.fromLocal || m.colorMatch.fromChina
     );
+    const colorMatchType = parsed.color ? bestColorMatchType(matches) : null;
+
+    // Offer other products when this one isn't found or not in the requested colour
+    const alternatives =
+      matches.length === 0 || (parsed.color && !colorAvailable)
+        ? matcherService.suggestAlternatives(effectiveProductType, parsed.color, matches)
+        : [];
 
     // Log recommendations summary
     const recommendationsSummary = matches.map((m) => ({
@@ -153,19 +224,31 @@ export async function checkAvailability(
     }));
     logger.info('Availability check results', {
       query,
-      parsed: { product: parsed.productType, color: parsed.color, quantity: quantity || parsed.quantity },
+      parsed: { product: parsed.productType, color: parsed.color, quantity: parsed.quantity },
       synonymResolved,
+      ambiguous: synonymMatch.ambiguous,
       effectiveProductType,
       totalMatches: matches.length,
       recommendations: recommendationsSummary,
+      alternatives: alternatives.map((a) => a.product.name),
     });
 
+    // Check each colour of a per-colour order against the best product
+    const colorLines = parsed.colorLines.map((line) => ({
+      ...line,
+      colorMatch: matches.length > 0 ? matcherService.checkColorAvailability(matches[0].product, line.color) : null,
+    }));
+
     // Generate summary
     let summary: string;
     if (matches.length === 0) {
-      summary = `No products found matching "${parsed.productType}". Please check the product name or try a different search term.`;
+      summary = alternatives.length > 0
+        ? `No products found matching "${parsed.productType}". Similar products: ${alternativeNames(alternatives)}.`
+        : `No products found matching "${parsed.productType}". Please check the product name or try a different search term.`;
     } else if (parsed.color && !colorAvailable) {
-      summary = `Products matching "${parsed.productType}" found, but ${parsed.color} color is not available. Check available colors in the results.`;
+      summary = alternatives.length > 0
+        ? `Products matching "${parsed.productType}" found, but ${parsed.color} color is not available. Available in ${parsed.color}: ${alternativeNames(alternatives)}.`
+        : `Products matching "${parsed.productType}" found, but ${parsed.color} color is not available. Check available colors in the results.`;
     } else {
       const firstMatch = matches[0];
       summary = generateAvailabilitySummary(
@@ -174,30 +257,73 @@ export async function checkAvailability(
         firstMatch.recommendation.source,
         firstMatch.recommendation.supplier,
         firstMatch.recommendation.leadTime,
-        quantity || parsed.quantity,
+        parsed.quantity,
         firstMatch.recommendation.warning
-      );
+      ) + colorLinesNote(colorLines) + closeColorNote(parsed.color, firstMatch) + deadlineNote(firstMatch)
+        + splitNote(firstMatch) + clarifyingNote(synonymMatch);
     }
 
+    // Remember what was asked and found, for the next follow-up
+    const conversation: ConversationTurn | null =
+      conversationId && followUp
+        ? {
+            id: conversationId,
+            ...conversationService.record(conversationId, {
+              parsed,
+              resolvedProduct: matches.length > 0 ? matches[0].product.name : null,
+            }),
+            followUp: followUp.followUp,
+            inheritedFields: followUp.inheritedFields,
+            newFields: followUp.newFields,
+          }
+        : null;
+
     const response: AvailabilityResponse = {
       query,
       parsed: {
         product: parsed.productType,
         color: parsed.color,
-        quantity: quantity || parsed.quantity,
-        urgent: urgent || parsed.urgent,
+        quantity: parsed.quantity,
+        quantityDetail: parsed.quantityDetail,
+        colorLines: parsed.colorLines,
+        urgent: parsed.urgent,
+        deadline: deadlineDate ? formatDate(deadlineDate) : null,
+        deliveryArea: parsed.deliveryArea,
+        decorationMethod: parsed.decorationMethod,
+        printColors: parsed.printColors,
+        packaging: parsed.packaging,
+        requirements: parsed.requirements,
       },
       synonymResolved,
+      synonymCandidates: synonymMatch.candidates,
+      ambiguous: synonymMatch.ambiguous,
+      clarifyingQuestion: synonymMatch.clarifyingQuestion,
       availability: {
         found: matches.length > 0,
         colorAvailable,
+        colorMatchType,
         matchingProducts: matches.map((m) => ({
           product: m.product,
+          score: m.score,
+          matchReason: m.matchReason,
           colorMatch: m.colorMatch,
           recommendation: m.recommendation,
+          ...(m.delivery ? { delivery: m.delivery } : {}),
+          ...(m.trace ? { trace: m.trace } : {}),
         })),
+        alternatives,
+        colorLines,
       },
       summary,
+      ...(explain && {
+        trace: {
+          synonymChecks: [
+            synonymCheck('query', query, synonymFromQuery),
+            ...(synonymMatch !== synonymFromQuery ? [synonymCheck('parsed', parsed.productType, synonymMatch)] : []),
+          ],
+        },
+      }),
+      ...(conversation && { conversation }),
     };
 
     res.json({ success: true, data: response });
@@ -216,14 +342,17 @@ export async function checkMultiAvailability(
   next: NextFunction
 ): Promise<void> {
   try {
-    const { query, urgent = false } = req.body;
+    const { query, urgent = false, deadline } = req.body;
+    const explain = wantsExplain(req);
 
-    logger.info('Multi-availability check request', { query, urgent });
+    logger.info('Multi-availability check request', { query, urgent, deadline, explain });
 
     if (!query) {
       throw createError('Query is required', 400, 'INVALID_REQUEST', { field: 'query' });
     }
 
+    const requestDeadline = parseDeadline(deadline);
+
     // Parse query for multiple products
     const multiParsed = await parserService.parseMultiQuery(query);
 
@@ -235,28 +364,39 @@ export async function checkMultiAvailability(
     // Process each product item
     for (const item of multiParsed.items) {
       // Try to resolve synonym
-      const synonymResolved = matcherService.resolveSynonym(item.productType);
+      const synonymMatch = matcherService.matchSynonyms(item.productType);
+      const synonymResolved = synonymMatch.resolved;
       const effectiveProductType = synonymResolved || item.productType;
+      const deadlineDate = requestDeadline ?? (item.deadline ? parseDate(item.deadline) : null);
 
       // Get product matches
       const matches = matcherService.getProductMatches(
         effectiveProductType,
         item.color,
         item.quantity,
-        item.urgent || effectiveUrgent
+        item.urgent || effectiveUrgent,
+        { deadline: deadlineDate, explain, synonym: synonymMatch }
       );
 
       // Determine color availability
       const colorAvailable = matches.some(
         (m) => m.colorMatch.onWebsite || m.colorMatch.fromLocal || m.colorMatch.fromChina
       );
+      const colorMatchType = item.color ? bestColorMatchType(matches) : null;
+
+      const alternatives =
+        matches.length === 0 || (item.color && !colorAvailable)
+          ? matcherService.suggestAlternatives(effectiveProductType, item.color, matches)
+          : [];
 
       // Generate individual summary
       let summary: string;
       if (matches.length === 0) {
-        summary = `No products found matching "${item.productType}".`;
+        summary = `No products found matching "${item.productType}".` +
+          (alternatives.length > 0 ? ` Similar products: ${alternativeNames(alternatives)}.` : '');
       } else if (item.color && !colorAvailable) {
-        summary = `"${item.productType}" found, but ${item.color} color not available.`;
+        summary = `"${item.productType}" found, but ${item.color} color not available.` +
+          (alternatives.length > 0 ? ` Available in ${item.color}: ${alternativeNames(alternatives)}.` : '');
       } else {
         const firstMatch = matches[0];
         summary = generateAvailabilitySummary(
@@ -267,7 +407,8 @@ export async function checkMultiAvailability(
           firstMatch.recommendation.leadTime,
           item.quantity,
           firstMatch.recommendation.warning
-        );
+        ) + closeColorNote(item.color, firstMatch) + deadlineNote(firstMatch) + splitNote(firstMatch)
+          + clarifyingNote(synonymMatch);
       }
 
       // Build original query segment for this item
@@ -281,15 +422,34 @@ export async function checkMultiAvailability(
           product: item.productType,
           color: item.color,
           quantity: item.quantity,
+          quantityDetail: item.quantityDetail,
           urgent: item.urgent || effectiveUrgent,
+          deadline: deadlineDate ? formatDate(deadlineDate) : null,
+          deliveryArea: item.deliveryArea,
+          decorationMethod: item.decorationMethod,
+          printColors: item.printColors,
+          packaging: item.packaging,
+          requirements: item.requirements,
         },
         synonymResolved,
+        synonymCandidates: synonymMatch.candidates,
+        ambiguous: synonymMatch.ambiguous,
+        clarifyingQuestion: synonymMatch.clarifyingQuestion,
         availability: {
           found: matches.length > 0,
           colorAvailable,
+          colorMatchType,
           matchingProducts: matches,
+          alternatives,
         },
         summary,
+        ...(explain && {
+          trace: {
+            synonymChecks: [
+              synonymCheck('parsed', item.productType, synonymMatch),
+            ],
+          },
+        }),
       });
     }
 
@@ -367,6 +527,158 @@ export async function getSynonyms(
   }
 }
 
+/**
+ * Check a synonym against existing entries and the product list before writing it.
+ * Returns the names of the products the synonym resolves to.
+ */
+function validateSynonym(entries: SynonymEntry[], synonym: Synonym, editing?: SynonymEntry): string[] {
+  const existing = synonymService.findEntry(entries, synonym.customerSays);
+  if (existing && existing !== editing) {
+    throw createError(
+      `Synonym "${synonym.customerSays}" already exists`,
+      409,
+      'SYNONYM_EXISTS',
+      { existing: existing.synonym }
+    );
+  }
+
+  const conflicts = synonymService.findConflicts(entries, synonym.customerSays, synonym.weCallIt, editing);
+  if (conflicts.length > 0) {
+    throw createError(
+      `"${synonym.customerSays}" conflicts with existing synonyms that point to other products`,
+      409,
+      'SYNONYM_CONFLICT',
+      { conflicts: conflicts.map((c) => c.synonym) }
+    );
+  }
+
+  const products = matcherService.findProducts(synonym.weCallIt);
+  if (products.length === 0) {
+    throw createError(
+      `"${synonym.weCallIt}" does not match any product`,
+      400,
+      'UNKNOWN_PRODUCT',
+      { field: 'weCallIt' }
+    );
+  }
+
+  return products.map((p) => p.name);
+}
+
+/**
+ * POST /api/product/synonyms
+ * Add a customer term to the Synonyms tab
+ */
+export async function createSynonym(
+  req: Request<{}, {}, SynonymCreateRequest>,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { customerSays, weCallIt, notes = '' } = req.body;
+
+    if (typeof customerSays !== 'string' || !customerSays.trim()) {
+      throw createError('customerSays is required', 400, 'INVALID_REQUEST', { field: 'customerSays' });
+    }
+    if (typeof weCallIt !== 'string' || !weCallIt.trim()) {
+      throw createError('weCallIt is required', 400, 'INVALID_REQUEST', { field: 'weCallIt' });
+    }
+
+    const synonym: Synonym = {
+      customerSays: customerSays.trim(),
+      weCallIt: weCallIt.trim(),
+      notes: String(notes).trim(),
+    };
+
+    const entries = await synonymService.getEntries();
+    const matchedProducts = validateSynonym(entries, synonym);
+
+    await synonymService.create(synonym);
+
+    const response: SynonymResponse = { synonym, matchedProducts };
+    res.status(201).json({ success: true, data: response });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * PUT /api/product/synonyms/:customerSays
+ * Edit an existing synonym (rename, retarget or change notes)
+ */
+export async function updateSynonym(
+  req: Request<{ customerSays: string }, {}, SynonymUpdateRequest>,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { customerSays, weCallIt, notes } = req.body;
+
+    for (const [field, value] of Object.entries({ customerSays, weCallIt, notes })) {
+      if (value !== undefined && typeof value !== 'string') {
+        throw createError(`${field} must be a string`, 400, 'INVALID_REQUEST', { field });
+      }
+    }
+
+    const entries = await synonymService.getEntries();
+    const entry = synonymService.findEntry(entries, req.params.customerSays);
+
+    if (!entry) {
+      throw createError(
+        `Synonym "${req.params.customerSays}" not found`,
+        404,
+        'SYNONYM_NOT_FOUND',
+        { customerSays: req.params.customerSays }
+      );
+    }
+
+    const synonym: Synonym = {
+      customerSays: customerSays?.trim() || entry.synonym.customerSays,
+      weCallIt: weCallIt?.trim() || entry.synonym.weCallIt,
+      notes: notes !== undefined ? notes.trim() : entry.synonym.notes,
+    };
+
+    const matchedProducts = validateSynonym(entries, synonym, entry);
+
+    await synonymService.update(entry, synonym);
+
+    const response: SynonymResponse = { synonym, matchedProducts };
+    res.json({ success: true, data: response });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * DELETE /api/product/synonyms/:customerSays
+ * Remove a synonym from the Synonyms tab
+ */
+export async function deleteSynonym(
+  req: Request<{ customerSays: string }>,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const entries = await synonymService.getEntries();
+    const entry = synonymService.findEntry(entries, req.params.customerSays);
+
+    if (!entry) {
+      throw createError(
+        `Synonym "${req.params.customerSays}" not found`,
+        404,
+        'SYNONYM_NOT_FOUND',
+        { customerSays: req.params.customerSays }
+      );
+    }
+
+    await synonymService.remove(entry);
+
+    res.json({ success: true, data: { deleted: entry.synonym } });
+  } catch (error) {
+    next(error);
+  }
+}
+
 /**
  * POST /api/product/resolve
  * Resolve customer terms to canonical product names
@@ -378,13 +690,20 @@ export async function resolveTerms(
   next: NextFunction
 ): Promise<void> {
   try {
-    const { terms } = req.body;
+    const { terms, fuzzyThreshold } = req.body;
+    const explain = wantsExplain(req);
 
     if (!terms || !Array.isArray(terms)) {
       throw createError('terms must be an array', 400, 'INVALID_REQUEST', { field: 'terms' });
     }
 
-    const resolutions = matcherService.resolveTerms(terms);
+    if (fuzzyThreshold !== undefined && (typeof fuzzyThreshold !== 'number' || fuzzyThreshold < 0 || fuzzyThreshold > 1)) {
+      throw createError('fuzzyThreshold must be a number between 0 and 1', 400, 'INVALID_REQUEST', {
+        field: 'fuzzyThreshold',
+      });
+    }
+
+    const resolutions = matcherService.resolveTerms(terms, fuzzyThreshold, explain);
 
     logger.info('Resolve terms request', {
       termsCount: terms.length,
@@ -394,6 +713,8 @@ export async function resolveTerms(
         input: r.input,
         canonicalName: r.canonicalName,
         confidence: r.confidence,
+        similarity: r.similarity,
+        ambiguous: r.ambiguous,
       })),
     });
 
@@ -406,3 +727,177 @@ export async function resolveTerms(
     next(error);
   }
 }
+
+/**
+ * PATCH /api/product/:url
+ * Update VA-owned sourcing fields (columns D, F-O) for a product identified by its website URL.
+ * Scraper-owned columns are rejected and Last Updated is stamped automatically.
+ */
+export async function updateProductSourcing(
+  req: Request<{ url: string }, {}, ProductUpdateRequest>,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const url = req.params.url.startsWith('/') ? req.params.url : `/${req.params.url}`;
+
+    if (!req.body || typeof req.body !== 'object' || Array.isArray(req.body)) {
+      throw createError('Request body must be an object of fields to update', 400, 'INVALID_REQUEST');
+    }
+
+    const validation = editorService.validateSourcingUpdate(req.body);
+
+    if (validation.forbidden.length > 0) {
+      const writableFields = Object.entries(PRODUCT_COLUMN_OWNERS)
+        .filter(([, owner]) => owner === 'va' || owner === 'anyone')
+        .map(([field]) => field);
+      throw createError(
+        `Fields not writable through this API: ${validation.forbidden.join(', ')}`,
+        403,
+        'COLUMN_NOT_WRITABLE',
+        { fields: validation.forbidden, writableFields }
+      );
+    }
+
+    if (validation.invalid.length > 0) {
+      throw createError('Invalid field values', 400, 'INVALID_REQUEST', { errors: validation.invalid });
+    }
+
+    const result = await editorService.updateSourcing(url, validation.fields);
+
+    if (!result) {
+      throw createError(`Product not found: ${url}`, 404, 'PRODUCT_NOT_FOUND', { url });
+    }
+
+    logger.info('Product sourcing update request', {
+      url,
+      rowNumber: result.rowNumber,
+      fields: Object.keys(validation.fields),
+    });
+
+    const response: ProductUpdateResponse = {
+      url,
+      rowNumber: result.rowNumber,
+      updatedFields: Object.keys(validation.fields),
+      lastUpdated: result.lastUpdated,
+      product: result.product,
+    };
+
+    res.json({ success: true, data: response });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Best colour match across matching products: exact beats family beats nearest
+ */
+function bestColorMatchType(matches: ProductMatch[]): ColorMatchType | null {
+  const order: ColorMatchType[] = ['exact', 'family', 'nearest'];
+  return order.find((type) => matches.some((m) => m.colorMatch.matchType === type)) ?? null;
+}
+
+/**
+ * Summary suffix listing a per-colour order, flagging colours the product doesn't come in
+ */
+function colorLinesNote(lines: ColorLineAvailability[]): string {
+  if (lines.length === 0) {
+    return '';
+  }
+  const parts = lines.map((line) => {
+    const text = `${line.quantity ?? line.quantityDetail.text} ${line.color}`;
+    if (!line.colorMatch || !line.colorMatch.available) return `${text} (not available)`;
+    if (line.colorMatch.matchType && line.colorMatch.matchType !== 'exact') {
+      return `${text} (closest: ${line.colorMatch.matchedColor})`;
+    }
+    return text;
+  });
+  return ` By colour: ${parts.join(', ')}.`;
+}
+
+/**
+ * Summary suffix telling the customer the requested colour is only a close match
+ */
+function closeColorNote(color: string | null, match: ProductMatch): string {
+  if (!color || !match.colorMatch.closeMatch || !match.colorMatch.matchedColor) {
+    return '';
+  }
+  return ` Note: ${color} is not available exactly; closest colour is ${match.colorMatch.matchedColor}.`;
+}
+
+const ROUTE_LABELS: Record<SourcingRoute, string> = {
+  local: 'Local supplier',
+  china_air: 'China by air',
+  china_sea: 'China by sea',
+};
+
+/**
+ * Validate an optional YYYY-MM-DD deadline from the request body
+ */
+function parseDeadline(deadline: unknown): Date | null {
+  if (deadline === undefined || deadline === null || deadline === '') {
+    return null;
+  }
+  const date = typeof deadline === 'string' ? parseDate(deadline) : null;
+  if (!date) {
+    throw createError('deadline must be a date in YYYY-MM-DD format', 400, 'INVALID_REQUEST', { field: 'deadline' });
+  }
+  return date;
+}
+
+/**
+ * Summary suffix with the estimated ready date against the requested deadline
+ */
+function deadlineNote(match: ProductMatch): string {
+  const delivery = match.delivery;
+  if (!delivery) {
+    return '';
+  }
+  if (delivery.feasible === null || !delivery.estimatedReadyDate) {
+    return ` Can't confirm delivery by ${delivery.deadline}: lead time unknown.`;
+  }
+  if (delivery.feasible) {
+    return ` Estimated ready by ${delivery.estimatedReadyDate}, in time for ${delivery.deadline}.`;
+  }
+  const alternative = delivery.routes.find((r) => r.feasible);
+  const alternativePart = alternative
+    ? ` ${ROUTE_LABELS[alternative.route]} could make it (ready by ${alternative.estimatedReadyDate}).`
+    : '';
+  return ` Won't be ready by ${delivery.deadline} (estimated ${delivery.estimatedReadyDate}).${alternativePart}`;
+}
+
+/**
+ * Summary suffix offering the split-sourcing plan, when one was proposed
+ */
+function splitNote(match: ProductMatch): string {
+  const plan = match.recommendation.splitPlan;
+  return plan ? ` Split option: ${plan.reason}.` : '';
+}
+
+/**
+ * Names of suggested alternatives for summaries, e.g. "Card Holder, Lanyard"
+ */
+function alternativeNames(alternatives: ProductAlternative[]): string {
+  return alternatives.map((a) => a.product.name).join(', ');
+}
+
+/**
+ * Summary suffix asking the customer to pick when the synonym lookup was ambiguous
+ */
+function clarifyingNote(synonymMatch: SynonymResolution): string {
+  return synonymMatch.clarifyingQuestion ? ` To confirm: ${synonymMatch.clarifyingQuestion}` : '';
+}
+
+/**
+ * explain=true in the request body or query string
+ */
+function wantsExplain(req: Request): boolean {
+  return req.body?.explain === true || req.query.explain === 'true';
+}
+
+/**
+ * One synonym lookup as it appears in an explain trace
+ */
+function synonymCheck(stage: SynonymCheck['stage'], term: string, match: SynonymResolution): SynonymCheck {
+  return { stage, term, resolved: match.resolved, candidates: match.candidates };
+}
@@ -45,8 +45,11 @@ export async function runScraper(
         newProducts: stats.newProducts,
         updatedProducts: stats.updatedProducts,
         unchanged: stats.unchanged,
+        removedProducts: stats.removedProducts,
+        restoredProducts: stats.restoredProducts,
         errors: stats.errors,
       },
+      changes: stats.changes,
     };
 
     res.json({ success: true, data: response });
@@ -1,8 +1,25 @@
 import { Router, Request, Response } from 'express';
 import { authMiddleware } from './middleware/auth.js';
-import { searchProducts, checkAvailability, checkMultiAvailability, getSynonyms, resolveTerms } from './controllers/product.js';
+import {
+  searchProducts,
+  checkAvailability,
+  checkMultiAvailability,
+  getSynonyms,
+  createSynonym,
+  updateSynonym,
+  deleteSynonym,
+  resolveTerms,
+  updateProductSourcing,
+} from './controllers/product.js';
 import { runScraper } from './controllers/scraper.js';
 import { refreshCache } from './controllers/cache.js';
+import {
+  clearParserCache,
+  getDataQuality,
+  getParserStats,
+  getSourcingRules,
+  reloadSourcingRules,
+} from './controllers/admin.js';
 import { cacheService } from '../services/index.js';
 import { HealthCheckResponse } from '../types/api.js';
 
@@ -13,12 +30,16 @@ router.get('/health', (_req: Request, res: Response) => {
   const cacheStatus = cacheService.getStatus();
 
   const response: HealthCheckResponse = {
-    status: cacheStatus.isInitialized ? 'ok' : 'error',
+    status: !cacheStatus.isInitialized ? 'error' : cacheStatus.degraded ? 'degraded' : 'ok',
     timestamp: new Date().toISOString(),
     cache: {
       products: cacheStatus.products,
       synonyms: cacheStatus.synonyms,
       lastRefresh: cacheStatus.lastRefresh,
+      dataSource: cacheStatus.dataSource,
+      dataAsOf: cacheStatus.dataAsOf,
+      staleSeconds: cacheStatus.staleSeconds,
+      lastError: cacheStatus.lastError,
     },
   };
 
@@ -34,6 +55,10 @@ router.post('/api/product/availability', checkAvailability);
 router.post('/api/product/availability-multi', checkMultiAvailability);
 router.post('/api/product/resolve', resolveTerms);
 router.get('/api/product/synonyms', getSynonyms);
+router.post('/api/product/synonyms', createSynonym);
+router.put('/api/product/synonyms/:customerSays', updateSynonym);
+router.delete('/api/product/synonyms/:customerSays', deleteSynonym);
+router.patch('/api/product/:url', updateProductSourcing);
 
 // Scraper endpoints
 router.post('/api/scraper/run', runScraper);
@@ -41,4 +66,11 @@ router.post('/api/scraper/run', runScraper);
 // Cache endpoints
 router.post('/api/cache/refresh', refreshCache);
 
+// Admin endpoints
+router.get('/api/admin/data-quality', getDataQuality);
+router.get('/api/admin/sourcing-rules', getSourcingRules);
+router.post('/api/admin/sourcing-rules/reload', reloadSourcingRules);
+router.get('/api/admin/parser', getParserStats);
+router.post('/api/admin/parser/cache/clear', clearParserCache);
+
 export { router };
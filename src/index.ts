@@ -1,15 +1,20 @@
 import { startServer } from './server.js';
-import { cacheService } from './services/index.js';
+import { cacheService, sourcingRuleService } from './services/index.js';
 import { logger } from './utils/logger.js';
+import { config } from './utils/config.js';
 
 async function main() {
   try {
     logger.info('Starting Product Agent...');
 
-    // Initialize cache (loads data from Google Sheets)
-    logger.info('Initializing cache from Google Sheets...');
+    // Initialize cache (loads data from the configured product repository)
+    logger.info('Initializing cache...', { dataSource: config.dataSource.type });
     await cacheService.initialize();
 
+    // Load sourcing rules (invalid rules stop startup)
+    logger.info('Loading sourcing rules...', { source: config.sourcing.rulesSource });
+    await sourcingRuleService.initialize();
+
     // Start HTTP server
     startServer();
 
@@ -24,12 +29,14 @@ async function main() {
 process.on('SIGTERM', () => {
   logger.info('SIGTERM received, shutting down...');
   cacheService.stop();
+  sourcingRuleService.stop();
   process.exit(0);
 });
 
 process.on('SIGINT', () => {
   logger.info('SIGINT received, shutting down...');
   cacheService.stop();
+  sourcingRuleService.stop();
   process.exit(0);
 });
 
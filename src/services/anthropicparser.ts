@@ -0,0 +1,187 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { createHash } from 'crypto';
+import { config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { ParsedQuery, MultiParsedQuery } from '../types/api.js';
+import { ParserProvider, ParserResult } from './parser.js';
+import { formatDate, todayInSingapore } from './calendar.js';
+import {
+  PARSED_ITEMS_SCHEMA,
+  PARSED_QUERY_SCHEMA,
+  createParserError,
+  extractJson,
+  isParserError,
+  validateParsedItems,
+  validateParsedQuery,
+} from './parseschema.js';
+
+const PARSE_QUERY_PROMPT = `Parse this customer query about promotional products and extract the following information. Record it with the record_parsed_query tool.
+
+Required fields:
+- productType: What product they're asking about (string); "same" if no product is named, as in a follow-up like "what about in navy?"
+- color: Specific color mentioned, or null if not specified
+- quantity: Number of pieces as a whole number (e.g. 1500 for "1.5k"); the quantity as written if it is a range or uses units ("500-1000 pcs", "2 dozen", "10 cartons of 50"); null if not specified
+- urgent: Whether they indicate urgency (boolean)
+
+Optional fields (leave out or null if not mentioned):
+- deadline: Date they need it by, as YYYY-MM-DD. Today is {today}; a date without a year is the next one to come
+- deliveryArea: Where to deliver, as they wrote it (e.g. "Jurong")
+- decorationMethod: How the logo is applied: print, screen_print, pad_print, digital_print, embroidery, engraving, debossing, embossing, heat_transfer or sublimation ("print" if just "printed")
+- printColors: Number of colours in the printed logo (e.g. 2 for "2-colour print")
+- packaging: Packaging asked for (e.g. "gift box", "individual polybag")
+- requirements: Any other requirements, in their words (list of strings)
+- colorLines: Only when several colours each get their own quantity: one {"color","quantity"} per colour, and the top-level color and quantity null
+
+Examples:
+- "Do you have white badge case?" -> {"productType":"badge case","color":"white","quantity":null,"urgent":false}
+- "Need 200 pcs of card holders urgently" -> {"productType":"card holders","color":null,"quantity":200,"urgent":true}
+- "Looking for red USB drives, about 500 pieces, no rush" -> {"productType":"USB drives","color":"red","quantity":500,"urgent":false}
+- "300 navy polos with embroidered logo, deliver to Jurong by 15 Dec 2026" -> {"productType":"polos","color":"navy","quantity":300,"urgent":false,"deadline":"2026-12-15","deliveryArea":"Jurong","decorationMethod":"embroidery"}
+- "500 pens, 2-colour print, each in a gift box, must be eco-friendly" -> {"productType":"pens","color":null,"quantity":500,"urgent":false,"decorationMethod":"print","printColors":2,"packaging":"gift box","requirements":["must be eco-friendly"]}
+- "200 red and 300 blue mugs" -> {"productType":"mugs","color":null,"quantity":null,"urgent":false,"colorLines":[{"color":"red","quantity":200},{"color":"blue","quantity":300}]}
+
+Query: "{query}"`;
+
+const PARSE_MULTI_QUERY_PROMPT = `Parse this customer query about promotional products and extract ALL product requests mentioned. Record them with the record_parsed_items tool, one entry in items per product, and one per colour when colours get their own quantity.
+
+For EACH product mentioned, extract:
+- productType: What product they're asking about (string)
+- color: Specific color mentioned for this product, or null
+- quantity: Number of pieces for this product as a whole number, or the quantity as written if it is a range or uses units ("500-1000 pcs", "2 dozen", "10 cartons of 50"), or null
+- urgent: Whether this specific item is urgent (boolean)
+- deadline, deliveryArea, decorationMethod, printColors, packaging, requirements: as for a single product (today is {today}); repeat details said about the whole order on every item
+
+Examples:
+- "1,500 pcs t-shirts, 500 pcs hoodies" -> items: [{"productType":"t-shirts","color":null,"quantity":1500,"urgent":false},{"productType":"hoodies","color":null,"quantity":500,"urgent":false}]
+- "Need 200 red USB drives and 100 blue pens urgently" -> items: [{"productType":"USB drives","color":"red","quantity":200,"urgent":true},{"productType":"pens","color":"blue","quantity":100,"urgent":true}]
+- "Looking for white badge cases (500) and black lanyards (1000)" -> items: [{"productType":"badge cases","color":"white","quantity":500,"urgent":false},{"productType":"lanyards","color":"black","quantity":1000,"urgent":false}]
+- "200 red and 300 blue mugs, 2 dozen caps" -> items: [{"productType":"mugs","color":"red","quantity":200,"urgent":false},{"productType":"mugs","color":"blue","quantity":300,"urgent":false},{"productType":"caps","color":null,"quantity":"2 dozen","urgent":false}]
+- "5000 pcs of card holders, 2000 keychains, and 1000 notebooks" -> items: [{"productType":"card holders","color":null,"quantity":5000,"urgent":false},{"productType":"keychains","color":null,"quantity":2000,"urgent":false},{"productType":"notebooks","color":null,"quantity":1000,"urgent":false}]
+
+Query: "{query}"`;
+
+const SINGLE_TOOL: Anthropic.Tool = {
+  name: 'record_parsed_query',
+  description: 'Record the product request parsed from the customer query',
+  input_schema: PARSED_QUERY_SCHEMA,
+};
+
+const MULTI_TOOL: Anthropic.Tool = {
+  name: 'record_parsed_items',
+  description: 'Record every product request parsed from the customer query',
+  input_schema: PARSED_ITEMS_SCHEMA,
+};
+
+// Invalid output is sent back once with the problems listed before giving up
+const MAX_REPAIR_ATTEMPTS = 1;
+
+/**
+ * Parses queries with Claude (PARSER_MODEL, PARSER_MAX_TOKENS, PARSER_TIMEOUT_MS).
+ * Claude must answer through a tool whose input schema matches ParsedQuery; the input
+ * is validated and normalized, and invalid output gets one repair round-trip.
+ */
+export class AnthropicParserProvider implements ParserProvider {
+  readonly name = 'anthropic';
+  // Hash of everything sent besides the query, so edited prompts don't reuse cached parses
+  readonly promptVersion = createHash('sha256')
+    .update(JSON.stringify([config.parser.model, PARSE_QUERY_PROMPT, PARSE_MULTI_QUERY_PROMPT, SINGLE_TOOL, MULTI_TOOL]))
+    .digest('hex')
+    .slice(0, 12);
+  private client: Anthropic;
+
+  constructor() {
+    this.client = new Anthropic({
+      apiKey: config.anthropic.apiKey,
+      timeout: config.parser.timeoutMs,
+    });
+  }
+
+  async parseQuery(query: string): Promise<ParserResult<ParsedQuery>> {
+    const prompt = PARSE_QUERY_PROMPT.replace('{today}', formatDate(todayInSingapore())).replace('{query}', query);
+    return this.run(prompt, SINGLE_TOOL, config.parser.maxTokens, (input) => {
+      const { parsed, errors } = validateParsedQuery(input);
+      return { value: parsed, errors };
+    });
+  }
+
+  async parseMultiQuery(query: string): Promise<ParserResult<MultiParsedQuery>> {
+    // Check for global urgency keywords
+    const urgentKeywords = ['urgent', 'urgently', 'asap', 'rush', 'quickly', 'fast'];
+    const globalUrgent = urgentKeywords.some((kw) => query.toLowerCase().includes(kw));
+
+    const prompt = PARSE_MULTI_QUERY_PROMPT.replace('{today}', formatDate(todayInSingapore())).replace('{query}', query);
+    return this.run(prompt, MULTI_TOOL, config.parser.multiMaxTokens, (input) => {
+      const { items, errors } = validateParsedItems(input);
+      return {
+        value: items && {
+          items: items.map((item) => ({ ...item, urgent: item.urgent || globalUrgent })),
+          globalUrgent,
+        },
+        errors,
+      };
+    });
+  }
+
+  /**
+   * Ask Claude for a tool call, validate its input, and send the problems back once if invalid
+   */
+  private async run<T>(
+    prompt: string,
+    tool: Anthropic.Tool,
+    maxTokens: number,
+    validate: (input: unknown) => { value: T | null; errors: string[] }
+  ): Promise<ParserResult<T>> {
+    const messages: Anthropic.MessageParam[] = [{ role: 'user', content: prompt }];
+
+    for (let attempt = 0; ; attempt++) {
+      const response = await this.send(messages, tool, maxTokens);
+      const toolUse = response.content.find((block): block is Anthropic.ToolUseBlock => block.type === 'tool_use');
+
+      let errors: string[];
+      try {
+        // Fall back to JSON in the text if Claude answered without the tool
+        const input = toolUse
+          ? toolUse.input
+          : extractJson(response.content.map((block) => (block.type === 'text' ? block.text : '')).join(''));
+        const result = validate(input);
+        if (result.value) {
+          return { value: result.value, repaired: attempt > 0 };
+        }
+        errors = result.errors;
+      } catch (error) {
+        if (!isParserError(error)) throw error;
+        errors = [error.message];
+      }
+
+      if (attempt >= MAX_REPAIR_ATTEMPTS) {
+        throw createParserError('invalid_output', `Invalid parser output: ${errors.join('; ')}`);
+      }
+
+      logger.debug('Asking Claude to repair invalid parser output', { tool: tool.name, errors });
+      const feedback = `The result is invalid:\n- ${errors.join('\n- ')}\nCall ${tool.name} again with corrected values.`;
+      messages.push({ role: 'assistant', content: response.content });
+      messages.push({
+        role: 'user',
+        content: toolUse ? [{ type: 'tool_result', tool_use_id: toolUse.id, is_error: true, content: feedback }] : feedback,
+      });
+    }
+  }
+
+  /**
+   * One Messages API call forced to use the tool; API failures become parser errors
+   */
+  private async send(messages: Anthropic.MessageParam[], tool: Anthropic.Tool, maxTokens: number): Promise<Anthropic.Message> {
+    try {
+      return await this.client.messages.create({
+        model: config.parser.model,
+        max_tokens: maxTokens,
+        tools: [tool],
+        tool_choice: { type: 'tool', name: tool.name },
+        messages,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw createParserError(error instanceof Anthropic.APIConnectionTimeoutError ? 'timeout' : 'api_error', message);
+    }
+  }
+}
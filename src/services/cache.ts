@@ -1,17 +1,40 @@
+import { promises as fs } from 'fs';
+import path from 'path';
 import { Product, Synonym } from '../types/product.js';
-import { sheetsService } from './sheets.js';
+import { productRepository } from './repository.js';
+import { SearchIndex, buildSearchIndex } from './indexer.js';
 import { config } from '../utils/config.js';
 import { logger } from '../utils/logger.js';
 
+// Last-known-good data written to disk after every successful refresh
+interface CacheSnapshot {
+  savedAt: string;
+  products: Product[];
+  synonyms: Synonym[];
+}
+
+// Everything served to requests, replaced as one object so readers never see a mix
+interface CacheData {
+  products: Product[];
+  synonyms: Synonym[];
+  index: SearchIndex;
+}
+
 class CacheService {
-  private products: Product[] = [];
-  private synonyms: Synonym[] = [];
+  private data: CacheData = { products: [], synonyms: [], index: buildSearchIndex([], []) };
   private lastRefresh: Date | null = null;
   private refreshInterval: NodeJS.Timeout | null = null;
   private isInitialized: boolean = false;
+  // Where the data currently being served came from, and when it was fetched
+  private dataSource: 'repository' | 'snapshot' | 'none' = 'none';
+  private dataAsOf: Date | null = null;
+  private lastError: string | null = null;
+  // Snapshot writes run one after another so they can't race on the temp file
+  private saving: Promise<void> = Promise.resolve();
 
   /**
-   * Initialize the cache by loading data from sheets
+   * Initialize the cache by loading data from the product repository.
+   * Falls back to the on-disk snapshot when the repository is unreachable.
    */
   async initialize(): Promise<void> {
     if (this.isInitialized) {
@@ -19,12 +42,26 @@ class CacheService {
       return;
     }
 
-    await this.refresh();
+    try {
+      await this.refresh();
+    } catch (error) {
+      // refresh() falls back to the snapshot when nothing has been loaded yet
+      if (this.dataSource !== 'snapshot') {
+        throw error;
+      }
+      logger.warn('Starting in degraded mode from cache snapshot', {
+        dataAsOf: this.dataAsOf?.toISOString(),
+      });
+    }
 
     // Set up periodic refresh
     this.refreshInterval = setInterval(() => {
       this.refresh().catch((error) => {
-        logger.error('Periodic cache refresh failed', { error });
+        logger.error('Periodic cache refresh failed, serving last known data', {
+          error,
+          dataSource: this.dataSource,
+          dataAsOf: this.dataAsOf?.toISOString(),
+        });
       });
     }, config.cache.refreshIntervalMs);
 
@@ -35,21 +72,23 @@ class CacheService {
   }
 
   /**
-   * Refresh the cache from Google Sheets
+   * Refresh the cache from the product repository
    */
   async refresh(): Promise<{ productsLoaded: number; synonymsLoaded: number; refreshTimeMs: number }> {
     const startTime = Date.now();
-    logger.info('Refreshing cache from sheets');
+    logger.info('Refreshing cache from product repository');
 
     try {
       const [products, synonyms] = await Promise.all([
-        sheetsService.getProducts(),
-        sheetsService.getSynonyms(),
+        productRepository.getProducts(),
+        productRepository.getSynonyms(),
       ]);
 
-      this.products = products;
-      this.synonyms = synonyms;
+      this.swap(products, synonyms);
       this.lastRefresh = new Date();
+      this.dataSource = 'repository';
+      this.dataAsOf = this.lastRefresh;
+      this.lastError = null;
 
       const refreshTimeMs = Date.now() - startTime;
 
@@ -59,13 +98,21 @@ class CacheService {
         refreshTimeMs,
       });
 
+      await this.saveSnapshot();
+
       return {
         productsLoaded: products.length,
         synonymsLoaded: synonyms.length,
         refreshTimeMs,
       };
     } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
       logger.error('Failed to refresh cache', { error });
+
+      // Nothing served yet (e.g. first refresh after a restart) - try the snapshot
+      if (this.dataSource === 'none') {
+        await this.loadSnapshot();
+      }
       throw error;
     }
   }
@@ -74,14 +121,44 @@ class CacheService {
    * Get all products from cache
    */
   getProducts(): Product[] {
-    return this.products;
+    return this.data.products;
+  }
+
+  /**
+   * Get the search index built from the cached products and synonyms
+   */
+  getIndex(): SearchIndex {
+    return this.data.index;
+  }
+
+  /**
+   * Replace a single cached product (matched by URL), or add it if it is new
+   */
+  upsertProduct(product: Product): void {
+    const { products, synonyms } = this.data;
+    const index = products.findIndex((p) => p.url === product.url);
+    this.swap(
+      index === -1 ? [...products, product] : products.map((p, i) => (i === index ? product : p)),
+      synonyms
+    );
+    logger.debug('Cached product updated', { url: product.url });
+    this.saveSnapshot();
   }
 
   /**
    * Get all synonyms from cache
    */
   getSynonyms(): Synonym[] {
-    return this.synonyms;
+    return this.data.synonyms;
+  }
+
+  /**
+   * Replace the cached synonym list (after a synonym is created, edited or deleted)
+   */
+  setSynonyms(synonyms: Synonym[]): void {
+    this.swap(this.data.products, synonyms);
+    logger.debug('Cached synonyms updated', { count: synonyms.length });
+    this.saveSnapshot();
   }
 
   /**
@@ -92,12 +169,23 @@ class CacheService {
     synonyms: number;
     lastRefresh: string;
     isInitialized: boolean;
+    degraded: boolean;
+    dataSource: 'repository' | 'snapshot' | 'none';
+    dataAsOf: string | null;
+    staleSeconds: number | null;
+    lastError: string | null;
   } {
     return {
-      products: this.products.length,
-      synonyms: this.synonyms.length,
+      products: this.data.products.length,
+      synonyms: this.data.synonyms.length,
       lastRefresh: this.lastRefresh?.toISOString() || 'never',
       isInitialized: this.isInitialized,
+      // Serving data, but not from a successful latest refresh
+      degraded: this.dataSource === 'snapshot' || this.lastError !== null,
+      dataSource: this.dataSource,
+      dataAsOf: this.dataAsOf?.toISOString() || null,
+      staleSeconds: this.dataAsOf ? Math.round((Date.now() - this.dataAsOf.getTime()) / 1000) : null,
+      lastError: this.lastError,
     };
   }
 
@@ -111,6 +199,77 @@ class CacheService {
       logger.info('Cache refresh interval stopped');
     }
   }
+
+  /**
+   * Build the search index for new data, then replace products, synonyms and index together
+   */
+  private swap(products: Product[], synonyms: Synonym[]): void {
+    const index = buildSearchIndex(products, synonyms);
+    this.data = { products, synonyms, index };
+  }
+
+  /**
+   * Queue a snapshot write after any still in progress, so the last one written is the latest data
+   */
+  private saveSnapshot(): Promise<void> {
+    this.saving = this.saving.then(() => this.writeSnapshot());
+    return this.saving;
+  }
+
+  /**
+   * Write the current products and synonyms to disk. Failures are logged, never thrown,
+   * so a read-only disk can't take the service down.
+   */
+  private async writeSnapshot(): Promise<void> {
+    if (!config.cache.snapshotPath) return;
+
+    const snapshot: CacheSnapshot = {
+      savedAt: (this.dataAsOf || new Date()).toISOString(),
+      products: this.data.products,
+      synonyms: this.data.synonyms,
+    };
+
+    try {
+      const tempPath = `${config.cache.snapshotPath}.tmp`;
+      await fs.mkdir(path.dirname(config.cache.snapshotPath), { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify(snapshot), 'utf-8');
+      await fs.rename(tempPath, config.cache.snapshotPath);
+      logger.debug('Cache snapshot saved', { path: config.cache.snapshotPath });
+    } catch (error) {
+      logger.warn('Failed to save cache snapshot', { path: config.cache.snapshotPath, error });
+    }
+  }
+
+  /**
+   * Load the last-known-good snapshot from disk. Returns false if there is none.
+   */
+  private async loadSnapshot(): Promise<boolean> {
+    if (!config.cache.snapshotPath) return false;
+
+    try {
+      const text = await fs.readFile(config.cache.snapshotPath, 'utf-8');
+      const snapshot = JSON.parse(text) as CacheSnapshot;
+
+      if (!Array.isArray(snapshot.products) || !Array.isArray(snapshot.synonyms)) {
+        throw new Error('Snapshot is missing products or synonyms');
+      }
+
+      this.swap(snapshot.products, snapshot.synonyms);
+      this.dataSource = 'snapshot';
+      this.dataAsOf = new Date(snapshot.savedAt);
+
+      logger.warn('Loaded cache snapshot', {
+        path: config.cache.snapshotPath,
+        products: snapshot.products.length,
+        synonyms: snapshot.synonyms.length,
+        savedAt: snapshot.savedAt,
+      });
+      return true;
+    } catch (error) {
+      logger.error('Failed to load cache snapshot', { path: config.cache.snapshotPath, error });
+      return false;
+    }
+  }
 }
 
 export const cacheService = new CacheService();
@@ -0,0 +1,135 @@
+import { config } from '../utils/config.js';
+
+// Whose working days to count: Singapore office/suppliers, or Chinese factories
+export type CalendarRegion = 'sg' | 'china';
+
+/**
+ * Singapore gazetted public holidays, including Monday holidays in lieu of Sundays.
+ * Extend each year (or set EXTRA_HOLIDAYS) once MOM publishes the next year's dates.
+ */
+const SG_PUBLIC_HOLIDAYS: string[] = [
+  // 2025
+  '2025-01-01', '2025-01-29', '2025-01-30', '2025-03-31', '2025-04-18', '2025-05-01',
+  '2025-05-03', '2025-05-12', '2025-06-07', '2025-08-09', '2025-10-20', '2025-12-25',
+  // 2026
+  '2026-01-01', '2026-02-17', '2026-02-18', '2026-03-21', '2026-04-03', '2026-05-01',
+  '2026-05-27', '2026-06-01', '2026-08-10', '2026-11-09', '2026-12-25',
+  // 2027
+  '2027-01-01', '2027-02-08', '2027-03-10', '2027-03-26', '2027-05-01', '2027-05-17',
+  '2027-05-20', '2027-08-09', '2027-10-28', '2027-12-25',
+];
+
+/**
+ * Typical Chinese factory closures: Chinese New Year (about a week before to two weeks
+ * after) and National Day Golden Week. Inclusive date ranges.
+ */
+const CHINA_FACTORY_CLOSURES: Array<{ from: string; to: string; name: string }> = [
+  { from: '2025-01-20', to: '2025-02-12', name: 'Chinese New Year' },
+  { from: '2025-10-01', to: '2025-10-08', name: 'National Day Golden Week' },
+  { from: '2026-02-09', to: '2026-03-03', name: 'Chinese New Year' },
+  { from: '2026-10-01', to: '2026-10-07', name: 'National Day Golden Week' },
+  { from: '2027-01-29', to: '2027-02-20', name: 'Chinese New Year' },
+  { from: '2027-10-01', to: '2027-10-07', name: 'National Day Golden Week' },
+];
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Parse a YYYY-MM-DD (or full ISO timestamp) into a UTC midnight date, or null if invalid
+ */
+export function parseDate(value: string): Date | null {
+  const match = value.trim().slice(0, 10).match(DATE_PATTERN);
+  if (!match) return null;
+
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  // Reject rollovers such as 2026-02-30
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : null;
+}
+
+/**
+ * Format a date as YYYY-MM-DD
+ */
+export function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Today's date in Singapore, as UTC midnight
+ */
+export function todayInSingapore(now: Date = new Date()): Date {
+  const local = now.toLocaleDateString('en-CA', { timeZone: 'Asia/Singapore' });
+  return parseDate(local)!;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result;
+}
+
+/**
+ * Name of the closure covering a date in the given region, or null on a working day
+ */
+export function nonWorkingReason(date: Date, region: CalendarRegion): string | null {
+  const day = date.getUTCDay();
+  if (day === 0 || day === 6) return 'weekend';
+
+  const iso = formatDate(date);
+  if (region === 'china') {
+    const closure = CHINA_FACTORY_CLOSURES.find((c) => iso >= c.from && iso <= c.to);
+    return closure ? closure.name : null;
+  }
+
+  if (SG_PUBLIC_HOLIDAYS.includes(iso) || config.calendar.extraHolidays.includes(iso)) {
+    return 'public holiday';
+  }
+  return null;
+}
+
+export function isWorkingDay(date: Date, region: CalendarRegion): boolean {
+  return nonWorkingReason(date, region) === null;
+}
+
+/**
+ * Date on which `days` working days have passed after `start` (the start day itself
+ * doesn't count, so an order placed today with a 1-day lead time is ready next working day)
+ */
+export function addWorkingDays(start: Date, days: number, region: CalendarRegion): Date {
+  let date = start;
+  let remaining = days;
+  while (remaining > 0) {
+    date = addDays(date, 1);
+    if (isWorkingDay(date, region)) {
+      remaining--;
+    }
+  }
+  return date;
+}
+
+/**
+ * Working days from `start` (exclusive) up to and including `end`; 0 if end is not after start
+ */
+export function workingDaysBetween(start: Date, end: Date, region: CalendarRegion): number {
+  let count = 0;
+  for (let date = addDays(start, 1); date <= end; date = addDays(date, 1)) {
+    if (isWorkingDay(date, region)) {
+      count++;
+    }
+  }
+  return count;
+}
+
+/**
+ * Closures (not weekends) that fall between two dates, for explaining long estimates
+ */
+export function closuresBetween(start: Date, end: Date, region: CalendarRegion): string[] {
+  const names = new Set<string>();
+  for (let date = addDays(start, 1); date <= end; date = addDays(date, 1)) {
+    const reason = nonWorkingReason(date, region);
+    if (reason && reason !== 'weekend') {
+      names.add(reason);
+    }
+  }
+  return Array.from(names);
+}
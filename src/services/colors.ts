@@ -0,0 +1,362 @@
+import { ColorFamily, ColorMatchType } from '../types/product.js';
+
+interface PaletteColor {
+  name: string;
+  family: ColorFamily;
+  hex: string | null;
+  // Lowercase phrases customers and suppliers use for this colour
+  aliases: string[];
+}
+
+/**
+ * Canonical colour names. Aliases are matched as whole words, longest first,
+ * so "navy blue" wins over "blue" and "bored" never matches "red".
+ */
+const PALETTE: PaletteColor[] = [
+  { name: 'White', family: 'white', hex: '#FFFFFF', aliases: ['white', 'pure white', 'snow white'] },
+  { name: 'Cream', family: 'white', hex: '#FFFDD0', aliases: ['cream', 'ivory', 'off white', 'natural'] },
+  { name: 'Black', family: 'black', hex: '#000000', aliases: ['black', 'jet black'] },
+  { name: 'Grey', family: 'grey', hex: '#808080', aliases: ['grey', 'gray', 'mid grey', 'mid gray'] },
+  { name: 'Light Grey', family: 'grey', hex: '#D3D3D3', aliases: ['light grey', 'light gray', 'heather grey', 'heather gray', 'ash grey', 'ash gray'] },
+  { name: 'Charcoal', family: 'grey', hex: '#36454F', aliases: ['charcoal', 'dark grey', 'dark gray', 'graphite', 'gunmetal'] },
+  { name: 'Silver', family: 'grey', hex: '#C0C0C0', aliases: ['silver', 'metallic silver', 'chrome'] },
+  { name: 'Red', family: 'red', hex: '#D0021B', aliases: ['red', 'bright red', 'scarlet'] },
+  { name: 'Maroon', family: 'red', hex: '#800000', aliases: ['maroon', 'burgundy', 'wine', 'dark red'] },
+  { name: 'Pink', family: 'pink', hex: '#FFC0CB', aliases: ['pink', 'light pink', 'baby pink'] },
+  { name: 'Hot Pink', family: 'pink', hex: '#FF1493', aliases: ['hot pink', 'magenta', 'fuchsia'] },
+  { name: 'Rose Gold', family: 'pink', hex: '#B76E79', aliases: ['rose gold'] },
+  { name: 'Orange', family: 'orange', hex: '#FF7F00', aliases: ['orange', 'bright orange'] },
+  { name: 'Yellow', family: 'yellow', hex: '#FFD700', aliases: ['yellow', 'lemon', 'bright yellow'] },
+  { name: 'Gold', family: 'yellow', hex: '#D4AF37', aliases: ['gold', 'metallic gold'] },
+  { name: 'Green', family: 'green', hex: '#008000', aliases: ['green', 'kelly green'] },
+  { name: 'Lime', family: 'green', hex: '#32CD32', aliases: ['lime', 'lime green', 'light green'] },
+  { name: 'Dark Green', family: 'green', hex: '#006400', aliases: ['dark green', 'forest green', 'bottle green'] },
+  { name: 'Olive', family: 'green', hex: '#808000', aliases: ['olive', 'olive green', 'army green'] },
+  { name: 'Blue', family: 'blue', hex: '#0057B8', aliases: ['blue', 'royal blue', 'royal', 'cobalt'] },
+  { name: 'Navy', family: 'blue', hex: '#1F2A44', aliases: ['navy', 'navy blue', 'dark blue', 'midnight blue'] },
+  { name: 'Light Blue', family: 'blue', hex: '#ADD8E6', aliases: ['light blue', 'sky blue', 'baby blue'] },
+  { name: 'Turquoise', family: 'blue', hex: '#40E0D0', aliases: ['turquoise', 'aqua', 'cyan', 'teal'] },
+  { name: 'Purple', family: 'purple', hex: '#800080', aliases: ['purple', 'violet'] },
+  { name: 'Lavender', family: 'purple', hex: '#E6E6FA', aliases: ['lavender', 'lilac'] },
+  { name: 'Brown', family: 'brown', hex: '#8B4513', aliases: ['brown', 'chocolate', 'coffee'] },
+  { name: 'Tan', family: 'brown', hex: '#D2B48C', aliases: ['tan', 'camel'] },
+  { name: 'Beige', family: 'brown', hex: '#F5F5DC', aliases: ['beige', 'sand', 'khaki'] },
+  { name: 'Clear', family: 'clear', hex: null, aliases: ['clear', 'transparent', 'frosted'] },
+];
+
+// Aliases that are also everyday product words ("coffee mug", "wine opener", "sand timer",
+// "natural cotton tote"). Sheet colours still match them; in free text they only count as
+// a colour with a cue: "in coffee", "colour: coffee", "coffee colour".
+const PRODUCT_WORD_ALIASES = new Set([
+  'natural',
+  'cream',
+  'wine',
+  'lemon',
+  'lime',
+  'olive',
+  'royal',
+  'chrome',
+  'graphite',
+  'chocolate',
+  'coffee',
+  'camel',
+  'sand',
+]);
+
+/**
+ * Approximate sRGB values for commonly requested Pantone (PMS) coated colours.
+ * Codes not listed here still match the same code exactly, just not by nearest colour.
+ */
+const PANTONE_HEX: Record<string, string> = {
+  'BLACK': '#2D2926',
+  'COOL GRAY 7': '#97999B',
+  'COOL GRAY 11': '#53565A',
+  '021': '#FE5000',
+  '109': '#FFD100',
+  '116': '#FFCD00',
+  '151': '#FF8200',
+  '185': '#E4002B',
+  '186': '#C8102E',
+  '202': '#862633',
+  '219': '#DA1884',
+  '281': '#00205B',
+  '286': '#0033A0',
+  '287': '#003087',
+  '300': '#005EB8',
+  '347': '#009A44',
+  '348': '#00843D',
+  '354': '#00B140',
+  '485': '#DA291C',
+  '871': '#84754E',
+  '877': '#8A8D8F',
+  '1795': '#D22630',
+  '2685': '#330072',
+  '4625': '#4F2C1D',
+};
+
+// Largest CIE76 distance still reported as a nearest-colour match
+const NEAREST_MAX_DELTA = 30;
+
+// Scores for each match type; nearest matches scale between the two bounds by distance
+const MATCH_TYPE_SCORES = { exact: 1, family: 0.6, nearestMin: 0.5, nearestMax: 0.9 };
+
+// Supplier entries meaning any colour can be produced (e.g. China "Any Pantone")
+const ANY_COLOR_PATTERN = /\b(any|custom|all)\b.*\b(pantone|pms|colou?rs?)\b|^\s*(any|pantone|pms)\s*$/i;
+
+const PANTONE_PATTERN = /\b(?:pms|pantone)\s*(black|(?:cool|warm)\s*gr[ae]y\s*\d{1,2}|\d{3,4})\s*(?:c|u|cp|up|tpx|tcx)?\b/i;
+const BARE_PANTONE_PATTERN = /^\s*((?:cool|warm)\s*gr[ae]y\s*\d{1,2}|\d{3,4})\s*(?:c|u)\s*$/i;
+const HEX_PATTERN = /#([0-9a-f]{6}|[0-9a-f]{3})\b/i;
+
+export interface NormalizedColor {
+  input: string;
+  // What the input named: a colour word, a Pantone code or a hex value
+  kind: 'name' | 'pantone' | 'hex';
+  // Canonical palette name, or the closest one for Pantone and hex inputs
+  name: string | null;
+  family: ColorFamily | null;
+  hex: string | null;
+  // Pantone code without the coated/uncoated suffix, e.g. "286" or "COOL GRAY 7"
+  pantone: string | null;
+}
+
+export interface ColorComparison {
+  matchType: ColorMatchType;
+  score: number;
+}
+
+export interface BestColorMatch extends ColorComparison {
+  // The offered colour entry that matched, as written in the sheet
+  color: string;
+}
+
+const ALIASES = PALETTE.flatMap((color) => color.aliases.map((alias) => ({ alias, color }))).sort(
+  (a, b) => b.alias.split(' ').length - a.alias.split(' ').length
+);
+
+function words(value: string): string[] {
+  return value
+    .toLowerCase()
+    .replace(/gray/g, 'grey')
+    .split(/[^a-z0-9]+/)
+    .filter((w) => w.length > 0);
+}
+
+function findPaletteColor(value: string): PaletteColor | null {
+  const text = ` ${words(value).join(' ')} `;
+  for (const { alias, color } of ALIASES) {
+    if (text.includes(` ${words(alias).join(' ')} `)) {
+      return color;
+    }
+  }
+  return null;
+}
+
+function aliasPattern(alias: string): RegExp {
+  const body = words(alias)
+    .map((w) => w.replace('grey', 'gr[ae]y'))
+    .join('[^a-z0-9]+');
+  if (PRODUCT_WORD_ALIASES.has(alias)) {
+    return new RegExp(
+      `(?<=\\bin\\s+|\\bcolou?rs?\\s*:?\\s*)${body}(?![a-z0-9])|(?<![a-z0-9])${body}(?=[\\s-]*colou?r)`,
+      'i'
+    );
+  }
+  return new RegExp(`(?<![a-z0-9])${body}(?![a-z0-9])`, 'i');
+}
+
+const ALIAS_PATTERNS = ALIASES.map(({ alias }) => aliasPattern(alias));
+
+function expandHex(hex: string): string {
+  const digits = hex.replace('#', '').toUpperCase();
+  return digits.length === 3
+    ? `#${digits
+        .split('')
+        .map((d) => d + d)
+        .join('')}`
+    : `#${digits}`;
+}
+
+function hexToLab(hex: string): [number, number, number] {
+  const value = parseInt(hex.slice(1), 16);
+  const [r, g, b] = [(value >> 16) & 255, (value >> 8) & 255, value & 255].map((c) => {
+    const s = c / 255;
+    return s <= 0.04045 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
+  });
+
+  // sRGB -> XYZ (D65), normalized by the reference white
+  const x = (r * 0.4124 + g * 0.3576 + b * 0.1805) / 0.95047;
+  const y = r * 0.2126 + g * 0.7152 + b * 0.0722;
+  const z = (r * 0.0193 + g * 0.1192 + b * 0.9505) / 1.08883;
+  const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+
+  return [116 * f(y) - 16, 500 * (f(x) - f(y)), 200 * (f(y) - f(z))];
+}
+
+/**
+ * Perceptual distance between two hex colours (CIE76 delta E; under ~2 is indistinguishable)
+ */
+export function colorDistance(a: string, b: string): number {
+  const [l1, a1, b1] = hexToLab(a);
+  const [l2, a2, b2] = hexToLab(b);
+  return Math.sqrt((l1 - l2) ** 2 + (a1 - a2) ** 2 + (b1 - b2) ** 2);
+}
+
+function nearestPaletteColor(hex: string): PaletteColor {
+  let best = PALETTE[0];
+  let bestDistance = Infinity;
+  for (const color of PALETTE) {
+    if (!color.hex) continue;
+    const distance = colorDistance(hex, color.hex);
+    if (distance < bestDistance) {
+      best = color;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function normalizePantone(code: string): string {
+  return code
+    .toUpperCase()
+    .replace(/GREY/, 'GRAY')
+    .replace(/(COOL|WARM)\s*GRAY\s*/, '$1 GRAY ')
+    .trim();
+}
+
+/**
+ * Map free-text colour ("dark blue", "Gray", "PMS 286C", "#0033a0") to a canonical
+ * name and family. Returns null when the text names no colour we recognise.
+ */
+export function normalizeColor(input: string): NormalizedColor | null {
+  const pantoneMatch = input.match(PANTONE_PATTERN) || input.match(BARE_PANTONE_PATTERN);
+  if (pantoneMatch) {
+    const pantone = normalizePantone(pantoneMatch[1]);
+    const hex = PANTONE_HEX[pantone] ?? null;
+    const nearest = hex ? nearestPaletteColor(hex) : null;
+    return { input, kind: 'pantone', name: nearest?.name ?? null, family: nearest?.family ?? null, hex, pantone };
+  }
+
+  const hexMatch = input.match(HEX_PATTERN);
+  if (hexMatch) {
+    const hex = expandHex(hexMatch[1]);
+    const nearest = nearestPaletteColor(hex);
+    return { input, kind: 'hex', name: nearest.name, family: nearest.family, hex, pantone: null };
+  }
+
+  const color = findPaletteColor(input);
+  if (!color) {
+    return null;
+  }
+  return { input, kind: 'name', name: color.name, family: color.family, hex: color.hex, pantone: null };
+}
+
+/**
+ * Find the colour phrase named in free text, as written ("navy blue" in "200 navy blue pens").
+ * Whole words only, so "stand" and "bored" contain no colour.
+ */
+export function findColorInText(text: string): string | null {
+  for (const pattern of ALIAS_PATTERNS) {
+    const match = text.match(pattern);
+    if (match) {
+      return match[0];
+    }
+  }
+  return null;
+}
+
+/**
+ * Remove a colour found by findColorInText from text, with the words that marked it
+ * as a colour ("in navy", "colour: coffee", "natural-coloured")
+ */
+export function removeColorFromText(text: string, color: string): string {
+  const escaped = color.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return text.replace(
+    new RegExp(`(?:\\bin\\s+|\\bcolou?rs?\\s*:?\\s*)?(?<![a-z0-9])${escaped}(?![a-z0-9])(?:[\\s-]*colou?r(?:ed)?s?\\b)?`, 'i'),
+    ' '
+  );
+}
+
+/**
+ * True when a supplier colour entry means any colour can be made ("Any Pantone", "Custom colours")
+ */
+export function isAnyColor(value: string): boolean {
+  return ANY_COLOR_PATTERN.test(value);
+}
+
+/**
+ * Split a sheet colour cell or entry into individual colours ("Black/Red, White & Blue")
+ */
+export function splitColorList(value: string): string[] {
+  return value
+    .split(/\s*(?:[,/&+;|]|\band\b|\bor\b)\s*/i)
+    .map((c) => c.trim())
+    .filter((c) => c.length > 0);
+}
+
+/**
+ * Compare a requested colour with an offered one.
+ * Exact: same Pantone code, hex or canonical name. Nearest: a Pantone/hex colour
+ * within NEAREST_MAX_DELTA of the other. Family: same colour family.
+ */
+export function compareColors(requested: NormalizedColor, offered: NormalizedColor): ColorComparison | null {
+  const exact =
+    requested.kind === offered.kind &&
+    (requested.kind === 'pantone'
+      ? requested.pantone === offered.pantone
+      : requested.kind === 'hex'
+        ? requested.hex === offered.hex
+        : requested.name === offered.name);
+  if (exact) {
+    return { matchType: 'exact', score: MATCH_TYPE_SCORES.exact };
+  }
+
+  let best: ColorComparison | null = null;
+
+  // Nearest-colour matching only applies when one side is a specific shade (Pantone or hex)
+  if ((requested.kind !== 'name' || offered.kind !== 'name') && requested.hex && offered.hex) {
+    const distance = colorDistance(requested.hex, offered.hex);
+    if (distance <= NEAREST_MAX_DELTA) {
+      const closeness = 1 - distance / NEAREST_MAX_DELTA;
+      const score = MATCH_TYPE_SCORES.nearestMin + (MATCH_TYPE_SCORES.nearestMax - MATCH_TYPE_SCORES.nearestMin) * closeness;
+      best = { matchType: 'nearest', score: Math.round(score * 100) / 100 };
+    }
+  }
+
+  if (requested.family && requested.family === offered.family && (!best || best.score < MATCH_TYPE_SCORES.family)) {
+    best = { matchType: 'family', score: MATCH_TYPE_SCORES.family };
+  }
+
+  return best;
+}
+
+/**
+ * Best match for a requested colour among offered colour entries, or null if none is close.
+ * Colours we don't recognise only match offered entries with the same words.
+ */
+export function findBestColorMatch(requestedColor: string, offeredColors: string[]): BestColorMatch | null {
+  const requested = normalizeColor(requestedColor);
+  const requestedText = words(requestedColor).join(' ');
+  let best: BestColorMatch | null = null;
+
+  for (const entry of offeredColors) {
+    for (const part of splitColorList(entry)) {
+      const partText = words(part).join(' ');
+      let comparison: ColorComparison | null = null;
+
+      if (requestedText.length > 0 && partText === requestedText) {
+        comparison = { matchType: 'exact', score: MATCH_TYPE_SCORES.exact };
+      } else if (requested) {
+        const offered = normalizeColor(part);
+        comparison = offered ? compareColors(requested, offered) : null;
+      } else if (requestedText.length > 0 && ` ${partText} `.includes(` ${requestedText} `)) {
+        comparison = { matchType: 'exact', score: MATCH_TYPE_SCORES.exact };
+      }
+
+      if (comparison && (!best || comparison.score > best.score)) {
+        best = { ...comparison, color: part };
+      }
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,216 @@
+import { ParsedField, ParsedQuery, QueryDetails } from '../types/api.js';
+import { config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { normalizeForSynonym } from '../utils/helpers.js';
+import { matcherService } from './matcher.js';
+import { piecesDetail } from './quantity.js';
+
+// One query in a conversation, after merging, with the product it found
+export interface ConversationItem {
+  parsed: ParsedQuery;
+  resolvedProduct: string | null;
+}
+
+interface ConversationContext {
+  // Oldest first
+  items: ConversationItem[];
+  turn: number;
+  lastUsed: number;
+}
+
+export interface FollowUpResult {
+  parsed: ParsedQuery;
+  followUp: boolean;
+  inheritedFields: ParsedField[];
+  newFields: ParsedField[];
+}
+
+// Earlier items a follow-up can refer back to
+const MAX_ITEMS = 10;
+
+// Words around a follow-up that don't name a product: "what about the ... in", "same again",
+// "make it 500", "change to 500", "bump it up to 500"
+const FILLER_WORDS = new Set([
+  'a', 'about', 'actually', 'again', 'also', 'an', 'and', 'another', 'any', 'are', 'bump', 'can',
+  'change', 'color', 'colour', 'decrease', 'do', 'down', 'for', 'get', 'have', 'how', 'i', 'in',
+  'increase', 'instead', 'is', 'it', 'just', 'let', 'lets', 'lower', 'make', 'me', 'more', 'of',
+  'ok', 'okay', 'one', 'ones', 'please', 'raise', 'reduce', 'same', 'set', 'so', 'that', 'the',
+  'them', 'then', 'there', 'these', 'this', 'those', 'to', 'too', 'up', 'update', 'us', 'version',
+  'we', 'what', 'with',
+]);
+
+// "300 more", "another 300": added to the earlier quantity
+const MORE_PATTERN = /\b(\d{1,3}(?:,\d{3})+|\d+)\s*(?:pcs?|pieces?|units?)?\s+more\b|\banother\s+(\d{1,3}(?:,\d{3})+|\d+)\b/i;
+
+// Details that belong to the whole order, carried over even when the product changes
+const ORDER_FIELDS: Array<keyof QueryDetails & ParsedField> = ['deadline', 'deliveryArea'];
+const DETAIL_FIELDS: Array<keyof QueryDetails & ParsedField> = [
+  'deadline',
+  'deliveryArea',
+  'decorationMethod',
+  'printColors',
+  'packaging',
+];
+
+/**
+ * The product words of a parsed product type, without follow-up filler at either end
+ */
+function productTerm(productType: string): string {
+  const words = productType
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[?!.,]+/g, ' ')
+    .split(/\s+/)
+    .filter((w) => w.length > 0);
+  while (words.length > 0 && FILLER_WORDS.has(words[0])) words.shift();
+  while (words.length > 0 && FILLER_WORDS.has(words[words.length - 1])) words.pop();
+  return words.join(' ');
+}
+
+function refersTo(term: string, item: ConversationItem): boolean {
+  const variants = normalizeForSynonym(term);
+  const names = [item.parsed.productType, item.resolvedProduct ?? ''].filter((n) => n).flatMap(normalizeForSynonym);
+  return names.some((name) => variants.some((v) => name.includes(v) || v.includes(name)));
+}
+
+/**
+ * Whether leftover words name a product: an earlier item's, or anything the catalogue knows.
+ * Other words ("can you do 250?", "same but by Friday") aren't a new product.
+ */
+function namesProduct(term: string, items: ConversationItem[]): boolean {
+  return items.some((item) => refersTo(term, item)) || matcherService.isKnownTerm(term);
+}
+
+/**
+ * Merge a follow-up query into an earlier one. With no product named, or the earlier
+ * product named again, every field not given now is carried over; for a new product
+ * only the order-wide deadline and delivery area are.
+ */
+export function mergeFollowUp(query: string, parsed: ParsedQuery, items: ConversationItem[]): FollowUpResult {
+  const words = productTerm(parsed.productType);
+  const term = words && (items.length === 0 || namesProduct(words, items)) ? words : '';
+  const base = term
+    ? [...items].reverse().find((item) => refersTo(term, item))
+    : items[items.length - 1];
+
+  const newFields: ParsedField[] = [];
+  if (term) newFields.push('product');
+  if (parsed.color) newFields.push('color');
+  if (parsed.quantity !== null || parsed.colorLines.length > 0) newFields.push('quantity');
+  if (parsed.urgent) newFields.push('urgent');
+  for (const field of DETAIL_FIELDS) {
+    if (parsed[field] !== null) newFields.push(field);
+  }
+  if (parsed.requirements.length > 0) newFields.push('requirements');
+
+  const merged: ParsedQuery = { ...parsed, productType: term || parsed.productType };
+  const inheritedFields: ParsedField[] = [];
+  const inherit = <K extends keyof ParsedQuery>(key: K, field: ParsedField, value: ParsedQuery[K]) => {
+    merged[key] = value;
+    inheritedFields.push(field);
+  };
+
+  if (base) {
+    const previous = base.parsed;
+    if (!term) inherit('productType', 'product', previous.productType);
+    if (!parsed.color && previous.color) inherit('color', 'color', previous.color);
+    if (!parsed.urgent && previous.urgent) inherit('urgent', 'urgent', true);
+
+    const more = query.match(MORE_PATTERN);
+    if (more && previous.quantity !== null) {
+      // Replaces whatever number the parser read from "300 more"
+      merged.quantity = previous.quantity + parseInt((more[1] ?? more[2]).replace(/,/g, ''), 10);
+      merged.quantityDetail = piecesDetail(merged.quantity);
+      merged.colorLines = [];
+      if (!newFields.includes('quantity')) newFields.push('quantity');
+    } else if (parsed.quantity === null && parsed.colorLines.length === 0 && previous.quantity !== null) {
+      inherit('quantity', 'quantity', previous.quantity);
+      merged.quantityDetail = previous.quantityDetail;
+      // A per-colour split no longer applies once a single new colour is asked for
+      merged.colorLines = parsed.color ? [] : previous.colorLines;
+    }
+
+    for (const field of DETAIL_FIELDS) {
+      if (parsed[field] === null && previous[field] !== null) inherit(field, field, previous[field]);
+    }
+    if (parsed.requirements.length === 0 && previous.requirements.length > 0) {
+      inherit('requirements', 'requirements', previous.requirements);
+    }
+  } else if (items.length > 0) {
+    const previous = items[items.length - 1].parsed;
+    for (const field of ORDER_FIELDS) {
+      if (parsed[field] === null && previous[field] !== null) inherit(field, field, previous[field]);
+    }
+  }
+
+  return { parsed: merged, followUp: inheritedFields.length > 0, inheritedFields, newFields };
+}
+
+class ConversationService {
+  private conversations = new Map<string, ConversationContext>();
+
+  /**
+   * Fill in what a query leaves out from earlier queries in the same conversation
+   */
+  followUp(id: string, query: string, parsed: ParsedQuery): FollowUpResult {
+    const context = this.get(id);
+    const result = mergeFollowUp(query, parsed, context?.items ?? []);
+
+    if (result.followUp) {
+      logger.info('Merged follow-up query', {
+        conversationId: id,
+        query,
+        inheritedFields: result.inheritedFields,
+        newFields: result.newFields,
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Remember a query and the product it found, for follow-ups. Returns the turn number and expiry.
+   */
+  record(id: string, item: ConversationItem): { turn: number; expiresAt: string } {
+    const now = Date.now();
+    const context = this.get(id) ?? { items: [], turn: 0, lastUsed: now };
+
+    context.items = [...context.items, item].slice(-MAX_ITEMS);
+    context.turn++;
+    context.lastUsed = now;
+
+    // Re-insert so the map stays in least recently used order
+    this.conversations.delete(id);
+    this.conversations.set(id, context);
+    this.prune(now);
+
+    return { turn: context.turn, expiresAt: new Date(now + config.conversation.ttlMs).toISOString() };
+  }
+
+  private get(id: string): ConversationContext | null {
+    const context = this.conversations.get(id);
+    if (!context) return null;
+
+    if (Date.now() - context.lastUsed > config.conversation.ttlMs) {
+      this.conversations.delete(id);
+      return null;
+    }
+    return context;
+  }
+
+  /**
+   * Drop expired conversations, then the least recently used beyond CONVERSATION_MAX
+   */
+  private prune(now: number): void {
+    for (const [id, context] of this.conversations) {
+      if (now - context.lastUsed > config.conversation.ttlMs) {
+        this.conversations.delete(id);
+      }
+    }
+    for (const id of this.conversations.keys()) {
+      if (this.conversations.size <= config.conversation.maxConversations) break;
+      this.conversations.delete(id);
+    }
+  }
+}
+
+export const conversationService = new ConversationService();
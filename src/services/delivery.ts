@@ -0,0 +1,174 @@
+import {
+  DeliveryEstimate,
+  LeadTime,
+  Product,
+  RouteEstimate,
+  SourcingRecommendation,
+  SourcingRoute,
+} from '../types/product.js';
+import { config } from '../utils/config.js';
+import { CalendarRegion, addWorkingDays, closuresBetween, formatDate, workingDaysBetween } from './calendar.js';
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+};
+
+const RANGE_PATTERN =
+  /(\d+(?:\.\d+)?|one|two|three|four|five|six|seven|eight|nine|ten)\s*(?:(?:-|–|~|to)\s*(\d+(?:\.\d+)?|one|two|three|four|five|six|seven|eight|nine|ten))?\s*(working\s+days?|business\s+days?|calendar\s+days?|days?|weeks?|wks?|months?)/i;
+
+function toNumber(value: string): number {
+  return NUMBER_WORDS[value.toLowerCase()] ?? parseFloat(value);
+}
+
+/**
+ * Convert a span in the given unit to working days (weeks are 5, calendar days 5/7, months ~22)
+ */
+function toWorkingDays(value: number, unit: string): number {
+  const lower = unit.toLowerCase();
+  if (lower.startsWith('w') && !lower.startsWith('working')) return Math.ceil(value * 5);
+  if (lower.startsWith('month')) return Math.ceil(value * 22);
+  if (lower.startsWith('calendar')) return Math.ceil((value * 5) / 7);
+  return Math.ceil(value);
+}
+
+/**
+ * Parse free-text lead time ("5-7 working days", "2 weeks", "3 to 5 days", "next day")
+ * into working days. Plain "days" are taken as working days, as suppliers quote them.
+ */
+export function parseLeadTime(text: string): LeadTime | null {
+  const value = text.trim().toLowerCase();
+  if (!value) return null;
+
+  if (/\bsame\s*day\b/.test(value)) return { minDays: 0, maxDays: 0 };
+  if (/\bnext\s*day\b/.test(value)) return { minDays: 1, maxDays: 1 };
+
+  const match = value.match(RANGE_PATTERN);
+  if (!match) return null;
+
+  const [, from, to, unit] = match;
+  const minDays = toWorkingDays(toNumber(from), unit);
+  const maxDays = toWorkingDays(toNumber(to ?? from), unit);
+  if (!Number.isFinite(minDays) || !Number.isFinite(maxDays)) return null;
+
+  return minDays <= maxDays ? { minDays, maxDays } : { minDays: maxDays, maxDays: minDays };
+}
+
+function estimateRoute(
+  route: SourcingRoute,
+  available: boolean,
+  leadTimeText: string,
+  region: CalendarRegion,
+  orderDate: Date,
+  deadline: Date | null
+): RouteEstimate {
+  if (!available) {
+    return {
+      route,
+      available,
+      leadTime: null,
+      earliestReadyDate: null,
+      estimatedReadyDate: null,
+      feasible: null,
+      atRisk: false,
+      note: 'Route not available for this product',
+    };
+  }
+
+  const leadTime = parseLeadTime(leadTimeText);
+  if (!leadTime) {
+    return {
+      route,
+      available,
+      leadTime: null,
+      earliestReadyDate: null,
+      estimatedReadyDate: null,
+      feasible: null,
+      atRisk: false,
+      note: leadTimeText ? `Lead time "${leadTimeText}" could not be parsed` : 'Lead time not recorded',
+    };
+  }
+
+  const earliest = addWorkingDays(orderDate, leadTime.minDays, region);
+  const latest = addWorkingDays(orderDate, leadTime.maxDays, region);
+  const closures = closuresBetween(orderDate, latest, region);
+
+  return {
+    route,
+    available,
+    leadTime,
+    earliestReadyDate: formatDate(earliest),
+    estimatedReadyDate: formatDate(latest),
+    feasible: deadline ? latest <= deadline : null,
+    // Only the optimistic end of the lead time meets the deadline
+    atRisk: deadline ? latest > deadline && earliest <= deadline : false,
+    ...(closures.length > 0 ? { note: `Includes closure: ${closures.join(', ')}` } : {}),
+  };
+}
+
+/**
+ * Estimated ready dates for each sourcing route of a product, checked against a deadline if given.
+ * Local lead time comes from the sheet; China air/sea use CHINA_AIR_LEAD_TIME / CHINA_SEA_LEAD_TIME
+ * and count working days around Chinese factory closures.
+ */
+export function estimateRoutes(product: Product, deadline: Date | null, orderDate: Date): RouteEstimate[] {
+  const { local, china } = product.sourcing;
+  const hasLocal = !!local.supplier && local.supplier.trim() !== '';
+
+  return [
+    estimateRoute('local', hasLocal, local.leadTime, 'sg', orderDate, deadline),
+    estimateRoute('china_air', china.available && china.air, config.leadTimes.chinaAir, 'china', orderDate, deadline),
+    estimateRoute('china_sea', china.available && china.sea, config.leadTimes.chinaSea, 'china', orderDate, deadline),
+  ];
+}
+
+/**
+ * Delivery verdict for the recommended source, using its best route:
+ * feasible routes first, then the earliest ready date
+ */
+export function summarizeDelivery(
+  routes: RouteEstimate[],
+  recommendation: SourcingRecommendation,
+  deadline: Date,
+  orderDate: Date
+): DeliveryEstimate {
+  const best =
+    recommendation.source === 'unknown'
+      ? undefined
+      : routes
+          .filter((r) => r.estimatedReadyDate !== null)
+          .filter((r) => (recommendation.source === 'local' ? r.route === 'local' : r.route !== 'local'))
+          .sort(
+            (a, b) =>
+              Number(b.feasible) - Number(a.feasible) || a.estimatedReadyDate!.localeCompare(b.estimatedReadyDate!)
+          )[0];
+
+  return {
+    deadline: formatDate(deadline),
+    orderDate: formatDate(orderDate),
+    workingDaysToDeadline: workingDaysBetween(orderDate, deadline, 'sg'),
+    route: best?.route ?? null,
+    estimatedReadyDate: best?.estimatedReadyDate ?? null,
+    feasible: best ? best.feasible : null,
+    routes,
+  };
+}
+
+/**
+ * Whether any available route of a source can meet the deadline (null when nothing is known)
+ */
+export function sourceMeetsDeadline(routes: RouteEstimate[], source: 'local' | 'china'): boolean | null {
+  const relevant = routes.filter(
+    (r) => r.feasible !== null && (source === 'local' ? r.route === 'local' : r.route !== 'local')
+  );
+  if (relevant.length === 0) return null;
+  return relevant.some((r) => r.feasible);
+}
@@ -0,0 +1,108 @@
+import { ProductSheetRow } from '../types/sheets.js';
+import { Product } from '../types/product.js';
+import { logger } from '../utils/logger.js';
+import { isTruthy, isFalsy, isPlainNumber } from '../utils/helpers.js';
+import { productRepository } from './repository.js';
+import { cacheService } from './cache.js';
+import { PRODUCT_HEADERS, PRODUCT_COLUMN_OWNERS, formatSheetTimestamp, toProduct } from './layout.js';
+
+const NUMBER_FIELDS: Array<keyof ProductSheetRow> = ['localMoq', 'chinaMoq'];
+const BOOLEAN_FIELDS: Array<keyof ProductSheetRow> = ['chinaAvailable', 'chinaAir', 'chinaSea'];
+
+export interface SourcingUpdateValidation {
+  fields: Partial<ProductSheetRow>;
+  // Fields owned by the scraper or stamped automatically
+  forbidden: string[];
+  invalid: Array<{ field: string; message: string }>;
+}
+
+class EditorService {
+  /**
+   * Validate a sourcing update against column ownership and value formats.
+   * Accepts numbers, booleans and string arrays and converts them to sheet cell text.
+   */
+  validateSourcingUpdate(body: Record<string, unknown>): SourcingUpdateValidation {
+    const result: SourcingUpdateValidation = { fields: {}, forbidden: [], invalid: [] };
+
+    for (const [key, raw] of Object.entries(body)) {
+      if (!(key in PRODUCT_HEADERS)) {
+        result.invalid.push({ field: key, message: 'Unknown field' });
+        continue;
+      }
+
+      const field = key as keyof ProductSheetRow;
+      const owner = PRODUCT_COLUMN_OWNERS[field];
+      if (owner === 'scraper' || owner === 'auto') {
+        result.forbidden.push(field);
+        continue;
+      }
+
+      const value = this.toCellValue(raw);
+      if (value === null) {
+        result.invalid.push({ field, message: 'Must be a string, number, boolean or array of strings' });
+        continue;
+      }
+
+      if (NUMBER_FIELDS.includes(field) && value !== '' && !isPlainNumber(value)) {
+        result.invalid.push({ field, message: `"${value}" is not a whole number` });
+        continue;
+      }
+
+      if (BOOLEAN_FIELDS.includes(field) && value !== '' && !isTruthy(value) && !isFalsy(value)) {
+        result.invalid.push({ field, message: `"${value}" is not a yes/no value` });
+        continue;
+      }
+
+      result.fields[field] = value;
+    }
+
+    if (Object.keys(body).length === 0) {
+      result.invalid.push({ field: '*', message: 'No fields to update' });
+    }
+
+    return result;
+  }
+
+  /**
+   * Write VA-owned fields for the product at a website URL, stamp Last Updated
+   * and replace the product in the cache. Returns null when the URL is not in the sheet.
+   */
+  async updateSourcing(
+    url: string,
+    fields: Partial<ProductSheetRow>
+  ): Promise<{ rowNumber: number; lastUpdated: string; product: Product } | null> {
+    const existingUrls = await productRepository.getExistingProductUrls();
+    const rowNumber = existingUrls.get(url);
+
+    if (!rowNumber) {
+      return null;
+    }
+
+    const lastUpdated = formatSheetTimestamp(new Date());
+    await productRepository.updateProductFields(rowNumber, { ...fields, lastUpdated });
+
+    const row = await productRepository.getProductRow(rowNumber);
+    if (!row) {
+      throw new Error(`Product row ${rowNumber} disappeared after update`);
+    }
+
+    const product = toProduct(row);
+    cacheService.upsertProduct(product);
+
+    logger.info('Updated product sourcing', { url, rowNumber, fields: Object.keys(fields) });
+    return { rowNumber, lastUpdated, product };
+  }
+
+  private toCellValue(raw: unknown): string | null {
+    if (typeof raw === 'string') return raw.trim();
+    if (typeof raw === 'number' && Number.isFinite(raw)) return String(raw);
+    if (typeof raw === 'boolean') return raw ? 'Yes' : 'No';
+    if (raw === null) return '';
+    if (Array.isArray(raw) && raw.every((item) => typeof item === 'string')) {
+      return raw.map((item) => item.trim()).filter((item) => item.length > 0).join(', ');
+    }
+    return null;
+  }
+}
+
+export const editorService = new EditorService();
@@ -0,0 +1,328 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { logger } from '../utils/logger.js';
+import { parseCsv, toCsv } from '../utils/csv.js';
+import {
+  ProductSheetRow,
+  SynonymSheetRow,
+  SourcingRuleSheetRow,
+  ScraperRowData,
+  SheetLayout,
+  SheetData,
+  ProductRowUpdate,
+} from '../types/sheets.js';
+import { Product, Synonym } from '../types/product.js';
+import { ProductRepository } from './repository.js';
+import {
+  TABS,
+  FIRST_DATA_ROW,
+  PRODUCT_HEADERS,
+  SYNONYM_HEADERS,
+  SOURCING_RULE_HEADERS,
+  buildLayout,
+  readProductRow,
+  readSynonymRow,
+  readSourcingRuleRow,
+  toProduct,
+  toSynonym,
+  toScraperValues,
+  toSynonymValues,
+} from './layout.js';
+
+type TabName = (typeof TABS)[keyof typeof TABS];
+
+/**
+ * Local product data source mirroring the Product Intelligence sheet.
+ *
+ * The data path is either a JSON workbook (`{ "Products": [[...]], "Synonyms": [[...]] }`)
+ * or a directory holding `Products.csv` and `Synonyms.csv` (plus `Sourcing Rules.csv`
+ * when rules come from the data source). Each tab keeps its header
+ * in row 1, so row numbers line up with the Google Sheet.
+ */
+export class FileStoreService implements ProductRepository {
+  private dataPath: string;
+
+  constructor(dataPath: string) {
+    this.dataPath = dataPath;
+  }
+
+  /**
+   * Fetch all products from the Products tab
+   */
+  async getProducts(): Promise<Product[]> {
+    const { rows } = await this.getProductSheet();
+    return rows.map((row) => toProduct(row));
+  }
+
+  /**
+   * Fetch all synonyms from the Synonyms tab
+   */
+  async getSynonyms(): Promise<Synonym[]> {
+    const { rows } = await this.getSynonymSheet();
+    return rows.map((row) => toSynonym(row));
+  }
+
+  /**
+   * Fetch the raw Products rows with their column layout
+   */
+  async getProductSheet(): Promise<SheetData<ProductSheetRow>> {
+    try {
+      const [header = [], ...rows] = await this.readTab(TABS.products);
+      const layout = buildLayout<ProductSheetRow>(TABS.products, header, PRODUCT_HEADERS);
+      logger.info('Fetched products from file', { count: rows.length });
+      return { layout, rows: rows.map((row) => readProductRow(row, layout)) };
+    } catch (error) {
+      logger.error('Failed to fetch products from file', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch the raw Synonyms rows with their column layout
+   */
+  async getSynonymSheet(): Promise<SheetData<SynonymSheetRow>> {
+    try {
+      const [header = [], ...rows] = await this.readTab(TABS.synonyms);
+      const layout = buildLayout<SynonymSheetRow>(TABS.synonyms, header, SYNONYM_HEADERS);
+      logger.info('Fetched synonyms from file', { count: rows.length });
+      return { layout, rows: rows.map((row) => readSynonymRow(row, layout)) };
+    } catch (error) {
+      logger.error('Failed to fetch synonyms from file', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch the Sourcing Rules rows with their column layout
+   */
+  async getSourcingRuleSheet(): Promise<SheetData<SourcingRuleSheetRow>> {
+    try {
+      const [header = [], ...rows] = await this.readTab(TABS.sourcingRules);
+      const layout = buildLayout<SourcingRuleSheetRow>(TABS.sourcingRules, header, SOURCING_RULE_HEADERS);
+      logger.info('Fetched sourcing rules from file', { count: rows.length });
+      return { layout, rows: rows.map((row) => readSourcingRuleRow(row, layout)) };
+    } catch (error) {
+      logger.error('Failed to fetch sourcing rules from file', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Append new products (scraper data - columns A-E only)
+   */
+  async appendProducts(products: ScraperRowData[]): Promise<number> {
+    try {
+      const rows = await this.readTab(TABS.products);
+      const layout = this.productLayout(rows);
+
+      for (const product of products) {
+        rows.push(toScraperValues(product, layout));
+      }
+
+      await this.writeTab(TABS.products, rows);
+      logger.info('Appended products to file', { count: products.length });
+      return products.length;
+    } catch (error) {
+      logger.error('Failed to append products to file', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Write individual cells of an existing product row, located by header name.
+   * Fields left undefined are not touched.
+   */
+  async updateProductFields(rowNumber: number, fields: Partial<ProductSheetRow>): Promise<void> {
+    await this.updateProducts([{ rowNumber, fields }]);
+  }
+
+  /**
+   * Write cell updates for many product rows in a single file write
+   */
+  async updateProducts(updates: ProductRowUpdate[]): Promise<number> {
+    if (updates.length === 0) return 0;
+
+    try {
+      const rows = await this.readTab(TABS.products);
+      const layout = this.productLayout(rows);
+
+      for (const { rowNumber, fields } of updates) {
+        const row = rows[rowNumber - 1];
+
+        if (!row || rowNumber < FIRST_DATA_ROW) {
+          throw new Error(`Product row ${rowNumber} does not exist`);
+        }
+
+        while (row.length < layout.width) {
+          row.push('');
+        }
+
+        for (const [field, value] of Object.entries(fields) as Array<[keyof ProductSheetRow, string | undefined]>) {
+          if (value === undefined) continue;
+          row[layout.columns[field]] = value;
+        }
+      }
+
+      await this.writeTab(TABS.products, rows);
+      logger.info('Updated product rows', { rows: updates.length });
+      return updates.length;
+    } catch (error) {
+      logger.error('Failed to update product rows', { rows: updates.length, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch a single product row by row number, or null if it is empty
+   */
+  async getProductRow(rowNumber: number): Promise<ProductSheetRow | null> {
+    try {
+      const rows = await this.readTab(TABS.products);
+      const row = rows[rowNumber - 1];
+      return row && rowNumber >= FIRST_DATA_ROW ? readProductRow(row, this.productLayout(rows)) : null;
+    } catch (error) {
+      logger.error('Failed to fetch product row', { rowNumber, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Get all existing product URLs for incremental update comparison
+   */
+  async getExistingProductUrls(): Promise<Map<string, number>> {
+    try {
+      const [header = [], ...rows] = await this.readTab(TABS.products);
+      const { columns } = buildLayout<ProductSheetRow>(TABS.products, header, PRODUCT_HEADERS);
+      const urlMap = new Map<string, number>();
+
+      rows.forEach((row, index) => {
+        const url = row[columns.websiteUrl];
+        if (url) {
+          urlMap.set(url, index + FIRST_DATA_ROW);
+        }
+      });
+
+      logger.info('Fetched existing product URLs', { count: urlMap.size });
+      return urlMap;
+    } catch (error) {
+      logger.error('Failed to fetch existing product URLs', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Append a synonym row to the Synonyms tab
+   */
+  async appendSynonym(synonym: SynonymSheetRow): Promise<void> {
+    try {
+      const rows = await this.readTab(TABS.synonyms);
+      rows.push(toSynonymValues(synonym, this.synonymLayout(rows)));
+      await this.writeTab(TABS.synonyms, rows);
+      logger.info('Appended synonym to file', { customerSays: synonym.customerSays });
+    } catch (error) {
+      logger.error('Failed to append synonym to file', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Overwrite an existing synonym row
+   */
+  async updateSynonym(rowNumber: number, synonym: SynonymSheetRow): Promise<void> {
+    try {
+      const rows = await this.readTab(TABS.synonyms);
+      if (!rows[rowNumber - 1] || rowNumber < FIRST_DATA_ROW) {
+        throw new Error(`Synonym row ${rowNumber} does not exist`);
+      }
+
+      rows[rowNumber - 1] = toSynonymValues(synonym, this.synonymLayout(rows));
+      await this.writeTab(TABS.synonyms, rows);
+      logger.info('Updated synonym row', { rowNumber });
+    } catch (error) {
+      logger.error('Failed to update synonym row', { rowNumber, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a synonym row, shifting the rows below it up
+   */
+  async deleteSynonym(rowNumber: number): Promise<void> {
+    try {
+      const rows = await this.readTab(TABS.synonyms);
+      if (!rows[rowNumber - 1] || rowNumber < FIRST_DATA_ROW) {
+        throw new Error(`Synonym row ${rowNumber} does not exist`);
+      }
+
+      rows.splice(rowNumber - 1, 1);
+      await this.writeTab(TABS.synonyms, rows);
+      logger.info('Deleted synonym row', { rowNumber });
+    } catch (error) {
+      logger.error('Failed to delete synonym row', { rowNumber, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve Products column positions from the header row of a freshly read tab
+   */
+  private productLayout(rows: string[][]): SheetLayout<ProductSheetRow> {
+    return buildLayout<ProductSheetRow>(TABS.products, rows[0] || [], PRODUCT_HEADERS);
+  }
+
+  /**
+   * Resolve Synonyms column positions from the header row of a freshly read tab
+   */
+  private synonymLayout(rows: string[][]): SheetLayout<SynonymSheetRow> {
+    return buildLayout<SynonymSheetRow>(TABS.synonyms, rows[0] || [], SYNONYM_HEADERS);
+  }
+
+  private isJsonWorkbook(): boolean {
+    return path.extname(this.dataPath).toLowerCase() === '.json';
+  }
+
+  private csvPath(tab: TabName): string {
+    return path.join(this.dataPath, `${tab}.csv`);
+  }
+
+  private async readWorkbook(): Promise<Record<string, string[][]>> {
+    const text = await fs.readFile(this.dataPath, 'utf-8');
+    return JSON.parse(text) as Record<string, string[][]>;
+  }
+
+  /**
+   * Read every row of a tab, header included
+   */
+  private async readTab(tab: TabName): Promise<string[][]> {
+    if (this.isJsonWorkbook()) {
+      const workbook = await this.readWorkbook();
+      return (workbook[tab] || []).map((row) => row.map((cell) => String(cell ?? '')));
+    }
+
+    const text = await fs.readFile(this.csvPath(tab), 'utf-8');
+    return parseCsv(text);
+  }
+
+  /**
+   * Replace every row of a tab, header included.
+   * Writes to a temp file first so a crash never leaves a truncated file behind.
+   */
+  private async writeTab(tab: TabName, rows: string[][]): Promise<void> {
+    let target: string;
+    let contents: string;
+
+    if (this.isJsonWorkbook()) {
+      const workbook = await this.readWorkbook();
+      workbook[tab] = rows;
+      target = this.dataPath;
+      contents = JSON.stringify(workbook, null, 2) + '\n';
+    } else {
+      target = this.csvPath(tab);
+      contents = toCsv(rows);
+    }
+
+    const tempPath = `${target}.tmp`;
+    await fs.writeFile(tempPath, contents, 'utf-8');
+    await fs.rename(tempPath, target);
+  }
+}
@@ -0,0 +1,89 @@
+import { promises as fs } from 'fs';
+import { ParsedQuery, MultiParsedQuery } from '../types/api.js';
+import { logger } from '../utils/logger.js';
+import { ParserProvider, ParserResult } from './parser.js';
+import { createParserError, validateParsedItems, validateParsedQuery } from './parseschema.js';
+
+/**
+ * Recorded parses, keyed by query text (matched ignoring case and extra spaces):
+ * { "queries": { "<query>": ParsedQuery }, "multiQueries": { "<query>": MultiParsedQuery } }
+ */
+interface ParserFixtures {
+  queries: Map<string, ParsedQuery>;
+  multiQueries: Map<string, MultiParsedQuery>;
+}
+
+function fixtureKey(query: string): string {
+  return query.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function toMap<T>(value: unknown): Map<string, T> {
+  const entries = value && typeof value === 'object' ? Object.entries(value as Record<string, T>) : [];
+  return new Map(entries.map(([query, parsed]) => [fixtureKey(query), parsed]));
+}
+
+/**
+ * Replays parses recorded in a JSON file, for deterministic tests.
+ * Queries without a fixture fail, so the parser service falls back to the keyword rules.
+ */
+export class FixtureParserProvider implements ParserProvider {
+  readonly name = 'fixtures';
+  private fixtures: Promise<ParserFixtures> | null = null;
+
+  constructor(private readonly filePath: string) {}
+
+  async parseQuery(query: string): Promise<ParserResult<ParsedQuery>> {
+    const fixture = (await this.load()).queries.get(fixtureKey(query));
+    if (!fixture) {
+      throw createParserError('no_fixture', `No parser fixture for query "${query}"`);
+    }
+
+    // Recorded parses go through the same validation as live ones
+    const { parsed, errors } = validateParsedQuery(fixture);
+    if (!parsed) {
+      throw createParserError('invalid_output', `Invalid parser fixture: ${errors.join('; ')}`);
+    }
+    return { value: parsed, repaired: false };
+  }
+
+  async parseMultiQuery(query: string): Promise<ParserResult<MultiParsedQuery>> {
+    const fixture = (await this.load()).multiQueries.get(fixtureKey(query));
+    if (!fixture) {
+      throw createParserError('no_fixture', `No multi-product parser fixture for query "${query}"`);
+    }
+
+    const { items, errors } = validateParsedItems(fixture.items);
+    if (!items) {
+      throw createParserError('invalid_output', `Invalid parser fixture: ${errors.join('; ')}`);
+    }
+    return { value: { items, globalUrgent: fixture.globalUrgent === true }, repaired: false };
+  }
+
+  /**
+   * Read the fixture file once; a failed read is retried on the next call
+   */
+  private load(): Promise<ParserFixtures> {
+    if (!this.fixtures) {
+      this.fixtures = fs
+        .readFile(this.filePath, 'utf-8')
+        .then((text) => {
+          const data = JSON.parse(text) as Record<string, unknown>;
+          const fixtures = {
+            queries: toMap<ParsedQuery>(data.queries),
+            multiQueries: toMap<MultiParsedQuery>(data.multiQueries),
+          };
+          logger.info('Loaded parser fixtures', {
+            path: this.filePath,
+            queries: fixtures.queries.size,
+            multiQueries: fixtures.multiQueries.size,
+          });
+          return fixtures;
+        })
+        .catch((error) => {
+          this.fixtures = null;
+          throw error;
+        });
+    }
+    return this.fixtures;
+  }
+}
@@ -1,5 +1,10 @@
-export { sheetsService } from './sheets.js';
+export { productRepository } from './repository.js';
 export { scraperService } from './scraper.js';
 export { cacheService } from './cache.js';
 export { parserService } from './parser.js';
 export { matcherService } from './matcher.js';
+export { dataQualityService } from './quality.js';
+export { editorService } from './editor.js';
+export { synonymService } from './synonyms.js';
+export { sourcingRuleService } from './rules.js';
+export { conversationService } from './conversation.js';
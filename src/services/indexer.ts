@@ -0,0 +1,178 @@
+import { Product, Synonym } from '../types/product.js';
+import { normalize, normalizeForSynonym, singularize } from '../utils/helpers.js';
+import { FuzzyText, fuzzyText, trigrams } from '../utils/fuzzy.js';
+
+export interface IndexedProduct {
+  product: Product;
+  // Position in the product list, so candidates found through the index keep sheet order
+  position: number;
+  // Normalized name and category
+  name: string;
+  category: string;
+  // Normalized, non-empty entries from Other Names (column D)
+  otherNames: string[];
+  // Singularized words of the name
+  tokens: string[];
+  // Singularized words of the name, category and other names
+  words: Set<string>;
+  // Name and other names prepared for approximate matching
+  fuzzyName: FuzzyText;
+  fuzzyOtherNames: FuzzyText[];
+}
+
+export interface IndexedSynonym {
+  synonym: Synonym;
+  position: number;
+  // Normalized and singularized forms of customerSays
+  variants: string[];
+}
+
+/**
+ * Immutable lookup structures over the cached products and synonyms.
+ * Built once per cache refresh and swapped in as a whole.
+ */
+export interface SearchIndex {
+  products: readonly IndexedProduct[];
+  synonyms: readonly IndexedSynonym[];
+  // Normalized product name -> first product with that name
+  productsByName: ReadonlyMap<string, IndexedProduct>;
+  // Word of the name, category or other names -> products with it, in sheet order
+  productsByToken: ReadonlyMap<string, ReadonlySet<IndexedProduct>>;
+  // Trigram of the name, category or other names -> products with it, in sheet order
+  productsByTrigram: ReadonlyMap<string, ReadonlySet<IndexedProduct>>;
+  // Normalized category -> products in it
+  productsByCategory: ReadonlyMap<string, ReadonlySet<IndexedProduct>>;
+  // Normalized other name -> products listing it
+  productsByOtherName: ReadonlyMap<string, ReadonlySet<IndexedProduct>>;
+  longestOtherName: number;
+  // Synonym variant -> synonym rows with that variant, in sheet order
+  synonymsByVariant: ReadonlyMap<string, readonly IndexedSynonym[]>;
+  longestSynonymVariant: number;
+}
+
+/**
+ * Split normalized text into singularized word tokens
+ */
+export function tokenize(value: string): string[] {
+  return normalize(value)
+    .split(/[^a-z0-9]+/)
+    .filter((t) => t.length > 0)
+    .map((t) => singularize(t));
+}
+
+/**
+ * Precompute the normalized fields of a single product
+ */
+export function indexProduct(product: Product, position: number = 0): IndexedProduct {
+  const otherNames = product.otherNames
+    .split(',')
+    .map((n) => normalize(n))
+    .filter((n) => n.length > 0);
+  const tokens = tokenize(product.name);
+
+  return {
+    product,
+    position,
+    name: normalize(product.name),
+    category: normalize(product.category),
+    otherNames,
+    tokens,
+    words: new Set([...tokens, ...tokenize(product.category), ...otherNames.flatMap((n) => tokenize(n))]),
+    fuzzyName: fuzzyText(product.name),
+    fuzzyOtherNames: otherNames.map((n) => fuzzyText(n)),
+  };
+}
+
+function addTo<K, V>(map: Map<K, Set<V>>, key: K, value: V): void {
+  const bucket = map.get(key);
+  if (bucket) {
+    bucket.add(value);
+  } else {
+    map.set(key, new Set([value]));
+  }
+}
+
+/**
+ * Build the search index for a product and synonym list
+ */
+export function buildSearchIndex(products: Product[], synonyms: Synonym[]): SearchIndex {
+  const indexedProducts = products.map((product, position) => indexProduct(product, position));
+  const indexedSynonyms = synonyms
+    .filter((synonym) => synonym.customerSays.trim() !== '')
+    .map((synonym, position) => ({ synonym, position, variants: normalizeForSynonym(synonym.customerSays) }));
+
+  const productsByName = new Map<string, IndexedProduct>();
+  const productsByToken = new Map<string, Set<IndexedProduct>>();
+  const productsByTrigram = new Map<string, Set<IndexedProduct>>();
+  const productsByCategory = new Map<string, Set<IndexedProduct>>();
+  const productsByOtherName = new Map<string, Set<IndexedProduct>>();
+  let longestOtherName = 0;
+
+  for (const entry of indexedProducts) {
+    if (!productsByName.has(entry.name)) {
+      productsByName.set(entry.name, entry);
+    }
+    for (const word of entry.words) {
+      addTo(productsByToken, word, entry);
+    }
+    for (const field of [entry.name, entry.category, ...entry.otherNames]) {
+      for (const gram of trigrams(field, false)) {
+        addTo(productsByTrigram, gram, entry);
+      }
+    }
+    if (entry.category) {
+      addTo(productsByCategory, entry.category, entry);
+    }
+    for (const otherName of entry.otherNames) {
+      addTo(productsByOtherName, otherName, entry);
+      longestOtherName = Math.max(longestOtherName, otherName.length);
+    }
+  }
+
+  const synonymsByVariant = new Map<string, IndexedSynonym[]>();
+  let longestSynonymVariant = 0;
+  for (const entry of indexedSynonyms) {
+    for (const variant of entry.variants) {
+      const bucket = synonymsByVariant.get(variant) || [];
+      bucket.push(entry);
+      synonymsByVariant.set(variant, bucket);
+      longestSynonymVariant = Math.max(longestSynonymVariant, variant.length);
+    }
+  }
+
+  return Object.freeze({
+    products: Object.freeze(indexedProducts),
+    synonyms: Object.freeze(indexedSynonyms),
+    productsByName,
+    productsByToken,
+    productsByTrigram,
+    productsByCategory,
+    productsByOtherName,
+    longestOtherName,
+    synonymsByVariant,
+    longestSynonymVariant,
+  });
+}
+
+/**
+ * Products in every one of the sets, in sheet order; none if any set is missing
+ */
+export function intersectProducts(sets: Array<ReadonlySet<IndexedProduct> | undefined>): IndexedProduct[] {
+  if (sets.length === 0 || sets.some((set) => !set)) return [];
+  const [smallest, ...rest] = (sets as Array<ReadonlySet<IndexedProduct>>).sort((a, b) => a.size - b.size);
+  return Array.from(smallest).filter((entry) => rest.every((set) => set.has(entry)));
+}
+
+/**
+ * Every substring of text up to maxLength characters, for looking up index keys that
+ * appear anywhere inside it
+ */
+export function substrings(text: string, maxLength: number): Set<string> {
+  const result = new Set<string>();
+  for (let start = 0; start < text.length; start++) {
+    for (let end = start + 1; end <= Math.min(text.length, start + maxLength); end++) {
+      result.add(text.slice(start, end));
+    }
+  }
+  return result;
+}
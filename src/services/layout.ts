@@ -0,0 +1,264 @@
+import { Product, Synonym } from '../types/product.js';
+import {
+  ProductSheetRow,
+  SynonymSheetRow,
+  SourcingRuleSheetRow,
+  ScraperRowData,
+  SheetLayout,
+} from '../types/sheets.js';
+import { parseCommaSeparated, isTruthy, parseNumber } from '../utils/helpers.js';
+import { logger } from '../utils/logger.js';
+
+// Tab names shared by every product data source (sheet tabs or local files)
+export const TABS = {
+  products: 'Products',
+  synonyms: 'Synonyms',
+  sourcingRules: 'Sourcing Rules',
+} as const;
+
+// Row 1 is the header, data starts at row 2
+export const FIRST_DATA_ROW = 2;
+
+// Expected header text for each Products field (see PRD §4.1)
+export const PRODUCT_HEADERS: Record<keyof ProductSheetRow, string> = {
+  productName: 'Product Name',
+  category: 'Category',
+  websiteUrl: 'Website URL',
+  otherNames: 'Other Names',
+  colorsOnWebsite: 'Colors on Website',
+  localSupplier: 'Local Supplier',
+  localMoq: 'Local MOQ',
+  localLeadTime: 'Local Lead Time',
+  localColors: 'Local Colors',
+  chinaAvailable: 'China Available?',
+  chinaMoq: 'China MOQ',
+  chinaAir: 'China Air',
+  chinaSea: 'China Sea',
+  chinaColors: 'China Colors',
+  notes: 'Notes',
+  lastUpdated: 'Last Updated',
+};
+
+// Who may write each Products column (see PRD §4.1)
+export type ColumnOwner = 'scraper' | 'va' | 'anyone' | 'auto';
+
+export const PRODUCT_COLUMN_OWNERS: Record<keyof ProductSheetRow, ColumnOwner> = {
+  productName: 'scraper',
+  category: 'scraper',
+  websiteUrl: 'scraper',
+  otherNames: 'va',
+  colorsOnWebsite: 'scraper',
+  localSupplier: 'va',
+  localMoq: 'va',
+  localLeadTime: 'va',
+  localColors: 'va',
+  chinaAvailable: 'va',
+  chinaMoq: 'va',
+  chinaAir: 'va',
+  chinaSea: 'va',
+  chinaColors: 'va',
+  notes: 'anyone',
+  lastUpdated: 'auto',
+};
+
+// Expected header text for each Synonyms field
+export const SYNONYM_HEADERS: Record<keyof SynonymSheetRow, string> = {
+  customerSays: 'Customer Says',
+  weCallIt: 'We Call It',
+  notes: 'Notes',
+};
+
+// Expected header text for each Sourcing Rules field (blank condition cells mean "any")
+export const SOURCING_RULE_HEADERS: Record<keyof SourcingRuleSheetRow, string> = {
+  ruleId: 'Rule ID',
+  priority: 'Priority',
+  enabled: 'Enabled',
+  recommend: 'Recommend',
+  urgent: 'Urgent',
+  quantityKnown: 'Quantity Known',
+  minQuantity: 'Min Quantity',
+  maxQuantity: 'Max Quantity',
+  hasLocal: 'Has Local',
+  hasChina: 'Has China',
+  chinaAir: 'China Air',
+  chinaSea: 'China Sea',
+  belowChinaMoq: 'Below China MOQ',
+  meetsChinaMoq: 'Meets China MOQ',
+  belowLocalMoq: 'Below Local MOQ',
+  meetsLocalMoq: 'Meets Local MOQ',
+  localMeetsDeadline: 'Local Meets Deadline',
+  chinaMeetsDeadline: 'China Meets Deadline',
+  categories: 'Categories',
+  reason: 'Reason',
+  warning: 'Warning',
+};
+
+/**
+ * Normalize header text so "Colours on website" matches "Colors on Website"
+ */
+function normalizeHeader(value: string): string {
+  return value.toLowerCase().replace(/colour/g, 'color').replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Map a tab's header row to field positions.
+ * Throws when a required header is missing or appears twice, since reading or
+ * writing by position would then hit the wrong column.
+ */
+export function buildLayout<T>(
+  tab: string,
+  header: string[],
+  expected: Record<keyof T, string>
+): SheetLayout<T> {
+  const normalizedHeader = header.map((h) => normalizeHeader(String(h ?? '')));
+  const fields = Object.keys(expected) as Array<keyof T>;
+  const columns = {} as Record<keyof T, number>;
+  const missing: string[] = [];
+  const duplicated: string[] = [];
+
+  for (const field of fields) {
+    const target = normalizeHeader(expected[field]);
+    const indexes = normalizedHeader
+      .map((h, index) => (h === target ? index : -1))
+      .filter((index) => index !== -1);
+
+    if (indexes.length === 0) {
+      missing.push(expected[field]);
+    } else if (indexes.length > 1) {
+      duplicated.push(expected[field]);
+    } else {
+      columns[field] = indexes[0];
+    }
+  }
+
+  if (missing.length > 0 || duplicated.length > 0) {
+    const problems: string[] = [];
+    if (missing.length > 0) problems.push(`missing required column(s): ${missing.join(', ')}`);
+    if (duplicated.length > 0) problems.push(`duplicate column(s): ${duplicated.join(', ')}`);
+    throw new Error(`${tab} tab header is invalid - ${problems.join('; ')}`);
+  }
+
+  const known = new Set(Object.values(columns) as number[]);
+  const unknownColumns = header
+    .map((h, index) => ({ h: String(h ?? '').trim(), index }))
+    .filter(({ h, index }) => h !== '' && !known.has(index))
+    .map(({ h, index }) => `${columnLetter(index)} (${h})`);
+
+  if (unknownColumns.length > 0) {
+    logger.warn('Unknown columns in sheet header', { tab, unknownColumns });
+  }
+
+  return { columns, unknownColumns, width: header.length };
+}
+
+/**
+ * Convert a zero-based column index to a sheet column letter (0 -> A, 26 -> AA)
+ */
+export function columnLetter(index: number): string {
+  let letter = '';
+  let n = index + 1;
+  while (n > 0) {
+    const remainder = (n - 1) % 26;
+    letter = String.fromCharCode(65 + remainder) + letter;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letter;
+}
+
+/**
+ * Read the raw cells of a row into named fields using the layout
+ */
+function readRow<T>(row: string[], layout: SheetLayout<T>): T {
+  const result = {} as Record<keyof T, string>;
+  for (const field of Object.keys(layout.columns) as Array<keyof T>) {
+    result[field] = row[layout.columns[field]] || '';
+  }
+  return result as T;
+}
+
+export function readProductRow(row: string[], layout: SheetLayout<ProductSheetRow>): ProductSheetRow {
+  return readRow(row, layout);
+}
+
+export function readSynonymRow(row: string[], layout: SheetLayout<SynonymSheetRow>): SynonymSheetRow {
+  return readRow(row, layout);
+}
+
+export function readSourcingRuleRow(
+  row: string[],
+  layout: SheetLayout<SourcingRuleSheetRow>
+): SourcingRuleSheetRow {
+  return readRow(row, layout);
+}
+
+/**
+ * Convert a Products sheet row into a Product
+ */
+export function toProduct(row: ProductSheetRow): Product {
+  return {
+    name: row.productName,
+    category: row.category,
+    url: row.websiteUrl,
+    otherNames: row.otherNames,
+    websiteColors: parseCommaSeparated(row.colorsOnWebsite),
+    sourcing: {
+      local: {
+        supplier: row.localSupplier,
+        moq: parseNumber(row.localMoq),
+        leadTime: row.localLeadTime,
+        colors: parseCommaSeparated(row.localColors),
+      },
+      china: {
+        available: isTruthy(row.chinaAvailable),
+        moq: parseNumber(row.chinaMoq),
+        air: isTruthy(row.chinaAir),
+        sea: isTruthy(row.chinaSea),
+        colors: row.chinaColors,
+      },
+    },
+    notes: row.notes,
+    lastUpdated: row.lastUpdated,
+  };
+}
+
+/**
+ * Convert a Synonyms sheet row into a Synonym
+ */
+export function toSynonym(row: SynonymSheetRow): Synonym {
+  return {
+    customerSays: row.customerSays,
+    weCallIt: row.weCallIt,
+    notes: row.notes,
+  };
+}
+
+/**
+ * Convert scraper data into a full-width row, placing each value under its header
+ */
+export function toScraperValues(product: ScraperRowData, layout: SheetLayout<ProductSheetRow>): string[] {
+  const row = new Array<string>(layout.width).fill('');
+  row[layout.columns.productName] = product.productName;
+  row[layout.columns.category] = product.category;
+  row[layout.columns.websiteUrl] = product.websiteUrl;
+  row[layout.columns.otherNames] = product.otherNames;
+  row[layout.columns.colorsOnWebsite] = product.colorsOnWebsite;
+  return row;
+}
+
+/**
+ * Convert a synonym into a full-width row, placing each value under its header
+ */
+export function toSynonymValues(synonym: SynonymSheetRow, layout: SheetLayout<SynonymSheetRow>): string[] {
+  const row = new Array<string>(layout.width).fill('');
+  row[layout.columns.customerSays] = synonym.customerSays;
+  row[layout.columns.weCallIt] = synonym.weCallIt;
+  row[layout.columns.notes] = synonym.notes;
+  return row;
+}
+
+/**
+ * Format a timestamp for the Last Updated column (e.g. "2024-11-20 14:05")
+ */
+export function formatSheetTimestamp(date: Date): string {
+  return date.toISOString().slice(0, 16).replace('T', ' ');
+}
@@ -1,8 +1,106 @@
-import { Product, Synonym, ColorAvailability, SourcingRecommendation, ProductMatch } from '../types/product.js';
-import { ProductResolution } from '../types/api.js';
+import {
+  Product,
+  ColorAvailability,
+  SourcingRecommendation,
+  ProductMatch,
+  ProductSearchHit,
+  FuzzyHit,
+  MatchReason,
+  ProductAlternative,
+  AlternativeReason,
+  SynonymCandidate,
+  SynonymMatchType,
+  SynonymResolution,
+  ColorLookupStep,
+  FieldMatchTrace,
+} from '../types/product.js';
+import { ProductResolution, ResolutionStep, ResolutionTrace } from '../types/api.js';
 import { cacheService } from './cache.js';
 import { logger } from '../utils/logger.js';
-import { containsIgnoreCase, normalize, normalizeForSynonym } from '../utils/helpers.js';
+import { config } from '../utils/config.js';
+import { normalize, normalizeForSynonym } from '../utils/helpers.js';
+import { FuzzyText, compact, fuzzyText, similarity, trigrams } from '../utils/fuzzy.js';
+import {
+  IndexedProduct,
+  IndexedSynonym,
+  SearchIndex,
+  indexProduct,
+  intersectProducts,
+  substrings,
+  tokenize,
+} from './indexer.js';
+import { BestColorMatch, findBestColorMatch, isAnyColor } from './colors.js';
+import { SourcingContext, sourcingRuleService } from './rules.js';
+import { estimateRoutes, sourceMeetsDeadline, summarizeDelivery } from './delivery.js';
+import { formatDate, todayInSingapore } from './calendar.js';
+import { proposeSplit } from './split.js';
+
+// Base score for each match tier (tiers leave room for a 0-10 closeness bonus)
+const MATCH_SCORES: Record<MatchReason, number> = {
+  exact_name: 100,
+  name_tokens: 80,
+  name_substring: 65,
+  category: 50,
+  other_names: 30,
+};
+
+// Optional request details that refine recommendations
+export interface MatchOptions {
+  // Date the order must be ready by; adds delivery estimates to each match
+  deadline?: Date | null;
+  // Pieces needed urgently, for proposing a local + China split
+  urgentQuantity?: number | null;
+  // Attach a trace of how each product matched and was recommended
+  explain?: boolean;
+  // Synonym lookup already made for the search term; its target is searched instead of looking again
+  synonym?: SynonymResolution;
+}
+
+// Terms shorter than this (letters and digits only) are too short to match approximately
+const MIN_FUZZY_LENGTH = 3;
+
+// 0-1 scores (synonym scores, similarities) this close to the best count as a tie
+const SCORE_TIE_MARGIN = 0.05;
+
+// Search hits within this many points of the top hit count as a tie
+const PRODUCT_TIE_MARGIN = 5;
+
+// Most options offered in a clarifying question
+const MAX_CLARIFYING_OPTIONS = 4;
+
+// Search words too generic to relate two products
+const ALTERNATIVE_STOP_WORDS = new Set(['and', 'with', 'for', 'the', 'set', 'pc', 'pcs', 'piece', 'custom']);
+
+/**
+ * Names in first-seen order without duplicates
+ */
+function uniqueNames(names: string[]): string[] {
+  return Array.from(new Set(names));
+}
+
+/**
+ * Names of the products scoring about the same as the top search hit
+ */
+function tiedProductNames(hits: ProductSearchHit[]): string[] {
+  if (hits.length === 0) return [];
+  return uniqueNames(hits.filter((h) => h.score >= hits[0].score - PRODUCT_TIE_MARGIN).map((h) => h.product.name));
+}
+
+/**
+ * Top search hits as they appear in a resolution trace
+ */
+function traceProducts(hits: ProductSearchHit[]): ResolutionStep['products'] {
+  return hits.slice(0, MAX_CLARIFYING_OPTIONS).map((h) => ({ name: h.product.name, score: h.score }));
+}
+
+/**
+ * "Did you mean A, B or C?" for the first few options
+ */
+function clarifyingQuestion(options: string[]): string {
+  const shown = options.slice(0, MAX_CLARIFYING_OPTIONS);
+  const list = shown.length > 1 ? `${shown.slice(0, -1).join(', ')} or ${shown[shown.length - 1]}` : shown[0];
+  return `Did you mean ${list}?`;
+}
 
 class MatcherService {
   /**
@@ -10,198 +108,336 @@ class MatcherService {
    * Handles pluralization automatically (e.g., "t-shirts" matches "t-shirt")
    */
   resolveSynonym(term: string): string | null {
-    const synonyms = cacheService.getSynonyms();
-    const termVariants = normalizeForSynonym(term);
+    return this.matchSynonyms(term).resolved;
+  }
 
-    // Try each variant (original and singularized)
-    for (const normalizedTerm of termVariants) {
-      // Direct match
-      const directMatch = synonyms.find(
-        (s) => normalizeForSynonym(s.customerSays).some(v => v === normalizedTerm)
-      );
-      if (directMatch) {
-        logger.debug('Synonym resolved (direct match)', {
-          from: term,
-          to: directMatch.weCallIt,
-        });
-        return directMatch.weCallIt;
+  /**
+   * Every synonym row matching a term, best first: direct matches on the whole term,
+   * then rows whose customer term appears inside it (longer synonyms score higher).
+   * Flags the result as ambiguous when rows pointing at different products tie, or
+   * when the chosen target matches several products equally well.
+   */
+  matchSynonyms(term: string): SynonymResolution {
+    const index = cacheService.getIndex();
+    const termVariants = normalizeForSynonym(term);
+    const termLength = Math.max(normalize(term).length, 1);
+
+    // Rows whose customer term is the whole term, and the longest of each row's terms found inside it
+    const direct = new Set<IndexedSynonym>();
+    const contained = new Map<IndexedSynonym, number>();
+    for (const variant of termVariants) {
+      for (const entry of index.synonymsByVariant.get(variant) ?? []) {
+        direct.add(entry);
+      }
+      for (const text of substrings(variant, index.longestSynonymVariant)) {
+        for (const entry of index.synonymsByVariant.get(text) ?? []) {
+          contained.set(entry, Math.max(contained.get(entry) ?? 0, text.length));
+        }
       }
     }
 
-    // Partial match (term contains synonym) - try with variants
-    for (const normalizedTerm of termVariants) {
-      const partialMatch = synonyms.find((s) =>
-        normalizeForSynonym(s.customerSays).some(v => normalizedTerm.includes(v))
-      );
-      if (partialMatch) {
-        logger.debug('Synonym resolved (partial match)', {
-          from: term,
-          to: partialMatch.weCallIt,
-        });
-        return partialMatch.weCallIt;
-      }
+    const candidates: SynonymCandidate[] = Array.from(contained.keys())
+      .sort((a, b) => a.position - b.position)
+      .map((entry) => {
+        const coverage = Math.min(contained.get(entry)! / termLength, 1);
+        return {
+          customerSays: entry.synonym.customerSays,
+          weCallIt: entry.synonym.weCallIt,
+          matchType: direct.has(entry) ? 'direct' : 'partial',
+          score: direct.has(entry) ? 1 : Math.round((0.5 + 0.4 * coverage) * 1000) / 1000,
+        };
+      });
+
+    // Stable sort keeps sheet order among equal scores
+    candidates.sort((a, b) => b.score - a.score);
+
+    const best = candidates[0];
+    if (!best) {
+      return { resolved: null, candidates, ambiguous: false, clarifyingQuestion: null };
     }
 
-    return null;
+    // Products are only looked up for the candidates that could be chosen, once per target
+    const hitsByTarget = new Map<string, ProductSearchHit[]>();
+    const hitsFor = (weCallIt: string): ProductSearchHit[] => {
+      const hits = hitsByTarget.get(weCallIt) ?? this.searchProducts(weCallIt);
+      hitsByTarget.set(weCallIt, hits);
+      return hits;
+    };
+    const tied = candidates.filter((c) => c.score >= best.score - SCORE_TIE_MARGIN);
+    for (const candidate of tied) {
+      candidate.products = hitsFor(candidate.weCallIt).slice(0, MAX_CLARIFYING_OPTIONS).map((h) => h.product.name);
+    }
+
+    // Different targets scoring about the same as the best; otherwise products tied for the best target
+    let options = uniqueNames(tied.map((c) => c.products?.[0] ?? c.weCallIt));
+    if (options.length <= 1) {
+      options = tiedProductNames(hitsFor(best.weCallIt));
+    }
+    const ambiguous = options.length > 1;
+
+    logger.debug('Synonym resolved', {
+      from: term,
+      to: best.weCallIt,
+      matchType: best.matchType,
+      candidates: candidates.length,
+      ambiguous,
+    });
+
+    return {
+      resolved: best.weCallIt,
+      candidates,
+      ambiguous,
+      clarifyingQuestion: ambiguous ? clarifyingQuestion(options) : null,
+    };
+  }
+
+  /**
+   * Whether a term names anything in the catalogue: a synonym, or a word of some
+   * product's name, category or other names
+   */
+  isKnownTerm(term: string): boolean {
+    const index = cacheService.getIndex();
+    return tokenize(term).some((token) => index.productsByToken.has(token)) || this.resolveSynonym(term) !== null;
   }
 
   /**
-   * Find products matching a search term
+   * Find products matching a search term, best match first
    */
   findProducts(searchTerm: string): Product[] {
-    const products = cacheService.getProducts();
+    return this.searchProducts(searchTerm).map((hit) => hit.product);
+  }
+
+  /**
+   * Rank products against a search term.
+   * Exact name beats all name tokens, which beats name substring, then category, then other names.
+   * Products with equal scores keep sheet order.
+   */
+  searchProducts(searchTerm: string): ProductSearchHit[] {
     const normalizedSearch = normalize(searchTerm);
+    const searchTokens = tokenize(searchTerm);
 
-    const matches = products.filter((product) => {
-      // Match by name
-      if (containsIgnoreCase(product.name, searchTerm)) {
-        return true;
-      }
+    const hits = this.searchCandidates(cacheService.getIndex(), normalizedSearch, searchTokens)
+      .map((entry) => this.scoreEntry(entry, normalizedSearch, searchTokens))
+      .filter((hit): hit is ProductSearchHit => hit !== null)
+      .sort((a, b) => b.score - a.score);
 
-      // Match by category
-      if (containsIgnoreCase(product.category, searchTerm)) {
-        return true;
-      }
+    logger.debug('Found products', {
+      searchTerm,
+      count: hits.length,
+      top: hits.slice(0, 3).map((h) => ({ name: h.product.name, score: h.score, reason: h.matchReason })),
+    });
+    return hits;
+  }
 
-      // Match by other names (synonyms in column D)
-      if (product.otherNames) {
-        const otherNames = product.otherNames.split(',').map((n) => normalize(n.trim()));
-        if (otherNames.some((n) => n.includes(normalizedSearch) || normalizedSearch.includes(n))) {
-          return true;
-        }
-      }
+  /**
+   * Which product field a search hit matched on, for explain traces
+   */
+  describeMatch(hit: ProductSearchHit, searchTerm: string): FieldMatchTrace {
+    const { product, matchReason } = hit;
+    if (matchReason === 'category') {
+      return { reason: matchReason, field: 'category', value: product.category };
+    }
+    if (matchReason === 'other_names') {
+      const normalizedSearch = normalize(searchTerm);
+      const otherNames = product.otherNames.split(',').map((n) => n.trim()).filter((n) => n.length > 0);
+      const value =
+        otherNames.find((n) => normalize(n) === normalizedSearch) ??
+        otherNames.find((n) => normalize(n).includes(normalizedSearch) || normalizedSearch.includes(normalize(n))) ??
+        product.otherNames;
+      return { reason: matchReason, field: 'otherNames', value };
+    }
+    return { reason: matchReason, field: 'name', value: product.name };
+  }
 
-      return false;
-    });
+  /**
+   * Check whether a single product matches a search term (name, category or other names)
+   */
+  matchesTerm(product: Product, searchTerm: string): boolean {
+    return this.scoreEntry(indexProduct(product), normalize(searchTerm), tokenize(searchTerm)) !== null;
+  }
 
-    logger.debug('Found products', { searchTerm, count: matches.length });
-    return matches;
+  /**
+   * Products that could match a search term, in sheet order: those with every search word,
+   * those with every trigram of the search (a name, category or other name containing it)
+   * and those with an other name inside the search. Searches too short for a trigram
+   * check every product.
+   */
+  private searchCandidates(index: SearchIndex, normalizedSearch: string, searchTokens: string[]): readonly IndexedProduct[] {
+    if (!normalizedSearch) return [];
+    if (normalizedSearch.length < 3) return index.products;
+
+    const candidates = new Set<IndexedProduct>([
+      ...intersectProducts(searchTokens.map((t) => index.productsByToken.get(t))),
+      ...intersectProducts(Array.from(trigrams(normalizedSearch, false), (g) => index.productsByTrigram.get(g))),
+    ]);
+    for (const text of substrings(normalizedSearch, index.longestOtherName)) {
+      for (const entry of index.productsByOtherName.get(text) ?? []) {
+        candidates.add(entry);
+      }
+    }
+    return Array.from(candidates).sort((a, b) => a.position - b.position);
   }
 
   /**
-   * Check color availability for a product
+   * Score one indexed product against a search term, or null if it doesn't match
    */
-  checkColorAvailability(product: Product, requestedColor: string | null): ColorAvailability {
-    if (!requestedColor) {
-      return { available: true, source: 'any' };
+  private scoreEntry(
+    entry: IndexedProduct,
+    normalizedSearch: string,
+    searchTokens: string[]
+  ): ProductSearchHit | null {
+    const hit = (score: number, matchReason: MatchReason): ProductSearchHit => ({
+      product: entry.product,
+      score: Math.round(score * 10) / 10,
+      matchReason,
+    });
+
+    if (!normalizedSearch) {
+      return null;
     }
 
-    const colorLower = requestedColor.toLowerCase();
+    // Exact product name
+    if (entry.name === normalizedSearch) {
+      return hit(MATCH_SCORES.exact_name, 'exact_name');
+    }
 
-    // Check website colors
-    const websiteColors = product.websiteColors.map((c) => c.toLowerCase());
-    if (websiteColors.some((c) => c.includes(colorLower) || colorLower.includes(c))) {
-      return { available: true, source: 'website' };
+    // Every search word appears in the name (plural-insensitive);
+    // names with fewer extra words rank higher
+    if (searchTokens.length > 0 && searchTokens.every((t) => entry.tokens.includes(t))) {
+      const coverage = searchTokens.length / Math.max(entry.tokens.length, 1);
+      return hit(MATCH_SCORES.name_tokens + 10 * coverage, 'name_tokens');
     }
 
-    // Check local supplier colors
-    const localColors = product.sourcing.local.colors.map((c) => c.toLowerCase());
-    if (localColors.some((c) => c.includes(colorLower) || colorLower.includes(c))) {
-      return { available: true, source: 'local' };
+    // Search text appears inside the name
+    if (entry.name.includes(normalizedSearch)) {
+      const coverage = normalizedSearch.length / Math.max(entry.name.length, 1);
+      return hit(MATCH_SCORES.name_substring + 10 * coverage, 'name_substring');
     }
 
-    // Check China colors (often "Any Pantone" or similar)
-    const chinaColors = product.sourcing.china.colors.toLowerCase();
-    if (
-      chinaColors.includes('pantone') ||
-      chinaColors.includes('any') ||
-      chinaColors.includes(colorLower)
-    ) {
-      return {
-        available: true,
-        source: 'china',
-        note: 'Custom Pantone color available',
-      };
+    // Match by category
+    if (entry.category.includes(normalizedSearch)) {
+      return hit(MATCH_SCORES.category, 'category');
+    }
+
+    // Match by other names (synonyms in column D), exact entries first
+    if (entry.otherNames.includes(normalizedSearch)) {
+      return hit(MATCH_SCORES.other_names + 10, 'other_names');
     }
+    if (entry.otherNames.some((n) => n.includes(normalizedSearch) || normalizedSearch.includes(n))) {
+      return hit(MATCH_SCORES.other_names, 'other_names');
+    }
+
+    return null;
+  }
 
-    return { available: false, source: 'any' };
+  /**
+   * Check color availability for a product.
+   * Exact matches win in source order (website, local, China); otherwise the
+   * closest same-family or nearest-shade colour is returned with a note.
+   */
+  checkColorAvailability(product: Product, requestedColor: string | null): ColorAvailability {
+    return this.explainColorAvailability(product, requestedColor).availability;
   }
 
   /**
-   * Recommend sourcing based on quantity and urgency
+   * Same as checkColorAvailability, also returning each source checked on the way
    */
-  recommendSourcing(
+  explainColorAvailability(
     product: Product,
-    quantity: number | null,
-    urgent: boolean
-  ): SourcingRecommendation {
-    const { local, china } = product.sourcing;
+    requestedColor: string | null
+  ): { availability: ColorAvailability; steps: ColorLookupStep[] } {
+    const steps: ColorLookupStep[] = [];
+    if (!requestedColor) {
+      return { availability: { available: true, source: 'any' }, steps };
+    }
 
-    // Check if local sourcing info exists (supplier name is filled)
-    const hasLocalSourcing = !!local.supplier && local.supplier.trim() !== '';
-    // Check if China sourcing is available
-    const hasChinaSourcing = china.available;
+    const lookup = (source: ColorLookupStep['source'], colors: string[]): BestColorMatch | null => {
+      const match = findBestColorMatch(requestedColor, colors);
+      steps.push({
+        source,
+        colors,
+        matchType: match?.matchType ?? null,
+        matchedColor: match?.color ?? null,
+        score: match?.score ?? null,
+      });
+      return match;
+    };
 
-    // BOTH local and China sourcing info are empty - return warning
-    if (!hasLocalSourcing && !hasChinaSourcing) {
+    const website = lookup('website', product.websiteColors);
+    if (website?.matchType === 'exact') {
       return {
-        source: 'unknown',
-        reason: 'No sourcing information available',
-        warning: `⚠️ WARNING: Both local and China sourcing details are missing for "${product.name}". Please update the Google Sheet with supplier information.`,
+        availability: { available: true, source: 'website', matchType: 'exact', matchedColor: website.color, score: website.score },
+        steps,
       };
     }
 
-    // Local not available but China is - recommend China
-    if (!hasLocalSourcing && hasChinaSourcing) {
+    const local = lookup('local', product.sourcing.local.colors);
+    if (local?.matchType === 'exact') {
       return {
-        source: 'china',
-        moq: china.moq || undefined,
-        reason: 'Local supplier not available - sourcing from China',
+        availability: { available: true, source: 'local', matchType: 'exact', matchedColor: local.color, score: local.score },
+        steps,
       };
     }
 
-    // No China option available - use local
-    if (!hasChinaSourcing) {
+    // Check China colors (often "Any Pantone" or similar)
+    const chinaColors = product.sourcing.china.colors;
+    if (isAnyColor(chinaColors)) {
+      steps.push({ source: 'china', colors: [chinaColors], matchType: 'any', matchedColor: requestedColor, score: 1 });
       return {
-        source: 'local',
-        supplier: local.supplier || undefined,
-        moq: local.moq || undefined,
-        leadTime: local.leadTime || undefined,
-        reason: 'China sourcing not available for this product',
+        availability: {
+          available: true,
+          source: 'china',
+          matchType: 'exact',
+          matchedColor: requestedColor,
+          score: 1,
+          note: 'Custom Pantone color available',
+        },
+        steps,
       };
     }
-
-    // Both are available - apply normal logic based on urgency and quantity
-
-    // Urgent - prefer local for faster delivery
-    if (urgent) {
+    const china = lookup('china', [chinaColors]);
+    if (china?.matchType === 'exact') {
       return {
-        source: 'local',
-        supplier: local.supplier || undefined,
-        moq: local.moq || undefined,
-        leadTime: local.leadTime || undefined,
-        reason: 'Urgent delivery requested - local supplier fastest',
+        availability: { available: true, source: 'china', matchType: 'exact', matchedColor: china.color, score: china.score },
+        steps,
       };
     }
 
-    // Quantity below China MOQ
-    if (quantity && china.moq && quantity < china.moq) {
-      return {
-        source: 'local',
-        supplier: local.supplier || undefined,
-        moq: local.moq || undefined,
-        leadTime: local.leadTime || undefined,
-        reason: `Quantity ${quantity} below China MOQ (${china.moq})`,
-      };
+    let closest: { source: ColorAvailability['source']; match: BestColorMatch } | null = null;
+    for (const [source, match] of [['website', website], ['local', local], ['china', china]] as const) {
+      if (match && (!closest || match.score > closest.match.score)) {
+        closest = { source, match };
+      }
     }
 
-    // Quantity meets China MOQ, not urgent
-    if (quantity && china.moq && quantity >= china.moq) {
+    if (closest) {
+      const kind = closest.match.matchType === 'family' ? 'same colour family' : 'nearest shade';
       return {
-        source: 'china',
-        moq: china.moq,
-        reason: `Quantity ${quantity} meets China MOQ (${china.moq}), better pricing`,
+        availability: {
+          available: true,
+          source: closest.source,
+          matchType: closest.match.matchType,
+          matchedColor: closest.match.color,
+          score: closest.match.score,
+          note: `Close match: ${closest.match.color} (${kind}) instead of ${requestedColor}`,
+        },
+        steps,
       };
     }
 
-    // Default to local if no quantity specified
-    return {
-      source: 'local',
-      supplier: local.supplier || undefined,
-      moq: local.moq || undefined,
-      leadTime: local.leadTime || undefined,
-      reason: 'Default to local supplier for standard orders',
-    };
+    return { availability: { available: false, source: 'any' }, steps };
+  }
+
+  /**
+   * Recommend sourcing based on quantity and urgency, using the active sourcing rules
+   */
+  recommendSourcing(
+    product: Product,
+    quantity: number | null,
+    urgent: boolean,
+    context?: SourcingContext
+  ): SourcingRecommendation {
+    return sourcingRuleService.evaluate(product, quantity, urgent, context);
   }
 
   /**
@@ -211,98 +447,353 @@ class MatcherService {
     searchTerm: string,
     color: string | null,
     quantity: number | null,
-    urgent: boolean
+    urgent: boolean,
+    options: MatchOptions = {}
   ): ProductMatch[] {
-    // Try to resolve synonym first
-    const resolved = this.resolveSynonym(searchTerm);
+    const deadline = options.deadline ?? null;
+
+    // Try to resolve synonym first, unless the caller already has
+    const resolved = options.synonym ? options.synonym.resolved : this.resolveSynonym(searchTerm);
     const effectiveSearchTerm = resolved || searchTerm;
 
-    // Find matching products
-    const products = this.findProducts(effectiveSearchTerm);
+    // Find matching products, best match first
+    const hits = this.searchProducts(effectiveSearchTerm);
 
-    // Build matches with availability and recommendations
-    return products.map((product) => {
-      const colorAvailability = this.checkColorAvailability(product, color);
-      const recommendation = this.recommendSourcing(product, quantity, urgent);
+    const orderDate = todayInSingapore();
+
+    // Build matches with availability, recommendations and (with a deadline) ready dates
+    return hits.map((hit) => {
+      const { product, score, matchReason } = hit;
+      const { availability: colorAvailability, steps: colorSteps } = this.explainColorAvailability(product, color);
+      const routes = estimateRoutes(product, deadline, orderDate);
+      const { recommendation, trace: sourcingTrace } = sourcingRuleService.explain(
+        product,
+        quantity,
+        urgent,
+        deadline
+          ? {
+              deadline: formatDate(deadline),
+              localMeetsDeadline: sourceMeetsDeadline(routes, 'local'),
+              chinaMeetsDeadline: sourceMeetsDeadline(routes, 'china'),
+            }
+          : undefined
+      );
+
+      const splitPlan = proposeSplit(product, quantity, recommendation, {
+        urgent,
+        urgentQuantity: options.urgentQuantity ?? null,
+        routes,
+      });
+      if (splitPlan) {
+        recommendation.splitPlan = splitPlan;
+      }
 
       return {
         product,
+        score,
+        matchReason,
         colorMatch: {
           onWebsite: colorAvailability.source === 'website',
           fromLocal: colorAvailability.source === 'local' || colorAvailability.source === 'website',
           fromChina: product.sourcing.china.available && (colorAvailability.source === 'china' || colorAvailability.available),
+          matchType: colorAvailability.matchType ?? null,
+          matchedColor: colorAvailability.matchedColor ?? null,
+          closeMatch: colorAvailability.available && colorAvailability.matchType !== undefined && colorAvailability.matchType !== 'exact',
         },
         recommendation,
+        ...(deadline ? { delivery: summarizeDelivery(routes, recommendation, deadline, orderDate) } : {}),
+        ...(options.explain
+          ? {
+              trace: {
+                matchedOn: this.describeMatch(hit, effectiveSearchTerm),
+                color: colorSteps,
+                sourcing: sourcingTrace,
+              },
+            }
+          : {}),
       };
     });
   }
 
+  /**
+   * Suggest other products when a search found nothing, or none of its matches come in
+   * the requested colour. Candidates share a category with the matches or a word with
+   * the search (name, other names or category); when a colour was requested they must
+   * come in it, exact matches ranking above close ones.
+   */
+  suggestAlternatives(
+    searchTerm: string,
+    color: string | null,
+    matches: ProductMatch[],
+    limit: number = config.matcher.maxAlternatives
+  ): ProductAlternative[] {
+    const matched = new Set(matches.map((m) => m.product));
+    const categories = new Set(matches.map((m) => normalize(m.product.category)).filter((c) => c.length > 0));
+    const searchWords = Array.from(new Set(tokenize(searchTerm))).filter(
+      (t) => t.length >= MIN_FUZZY_LENGTH && !ALTERNATIVE_STOP_WORDS.has(t)
+    );
+
+    // Only products in a matched category or with a search word can qualify
+    const index = cacheService.getIndex();
+    const candidates = new Set<IndexedProduct>();
+    for (const bucket of [
+      ...Array.from(categories, (c) => index.productsByCategory.get(c)),
+      ...searchWords.map((w) => index.productsByToken.get(w)),
+    ]) {
+      for (const entry of bucket ?? []) {
+        candidates.add(entry);
+      }
+    }
+
+    const alternatives: ProductAlternative[] = [];
+    for (const entry of Array.from(candidates).sort((a, b) => a.position - b.position)) {
+      if (matched.has(entry.product)) continue;
+
+      const reasons: AlternativeReason[] = [];
+      const parts: string[] = [];
+      let score = 0;
+
+      if (entry.category && categories.has(entry.category)) {
+        reasons.push('same_category');
+        parts.push(`Same category (${entry.product.category})`);
+        score += 50;
+      }
+
+      const shared = searchWords.filter((w) => entry.words.has(w));
+      if (shared.length > 0) {
+        reasons.push('shared_words');
+        parts.push(`Shares "${shared.join(' ')}" with the search`);
+        score += (40 * shared.length) / searchWords.length;
+      }
+
+      if (reasons.length === 0) continue;
+
+      let matchedColor: string | null = null;
+      if (color) {
+        const availability = this.checkColorAvailability(entry.product, color);
+        if (!availability.available) continue;
+
+        matchedColor = availability.matchedColor ?? color;
+        reasons.push('has_color');
+        parts.push(
+          availability.matchType === 'exact'
+            ? `available in ${matchedColor}`
+            : `available in ${matchedColor} (close to ${color})`
+        );
+        score += 10 * (availability.score ?? 1);
+      }
+
+      alternatives.push({
+        product: entry.product,
+        score: Math.round(score * 10) / 10,
+        reasons,
+        reason: parts.join('; '),
+        matchedColor,
+      });
+    }
+
+    const ranked = alternatives.sort((a, b) => b.score - a.score).slice(0, Math.max(limit, 0));
+    logger.debug('Suggested alternatives', {
+      searchTerm,
+      color,
+      alternatives: ranked.map((a) => ({ name: a.product.name, score: a.score, reasons: a.reasons })),
+    });
+    return ranked;
+  }
+
+  /**
+   * Approximate product lookup for misspelt terms ("lanyrd", "notbook", "tshirt").
+   * Compares the term with product names, runs of name words, other names and
+   * synonym terms, and keeps products whose best similarity reaches the threshold.
+   */
+  fuzzySearch(term: string, threshold: number = config.matcher.fuzzyThreshold): FuzzyHit[] {
+    if (compact(term).length < MIN_FUZZY_LENGTH) {
+      return [];
+    }
+
+    const index = cacheService.getIndex();
+    const termWords = normalize(term).split(' ').filter((w) => w.length > 0);
+    const prepared = fuzzyText(term);
+    const best = new Map<Product, FuzzyHit>();
+
+    const consider = (product: Product, candidate: string | FuzzyText, matchedOn: string, score?: number) => {
+      const value = score ?? similarity(prepared, candidate);
+      if (value >= threshold && value > (best.get(product)?.similarity ?? 0)) {
+        best.set(product, { product, similarity: Math.round(value * 1000) / 1000, matchedOn });
+      }
+    };
+
+    for (const entry of index.products) {
+      consider(entry.product, entry.fuzzyName, entry.product.name);
+
+      // Same number of words as the term, e.g. "metl pen" against "metal pen" in "Metal Pen Set"
+      const words = entry.name.split(' ');
+      for (let i = 0; i + termWords.length <= words.length; i++) {
+        consider(entry.product, words.slice(i, i + termWords.length).join(' '), entry.product.name);
+      }
+
+      entry.fuzzyOtherNames.forEach((otherName, i) => consider(entry.product, otherName, entry.otherNames[i]));
+    }
+
+    for (const entry of index.synonyms) {
+      const score = Math.max(...entry.variants.map((v) => similarity(prepared, v)));
+      if (score < threshold) continue;
+
+      const target = this.searchProducts(entry.synonym.weCallIt)[0];
+      if (target) {
+        consider(target.product, entry.synonym.customerSays, entry.synonym.customerSays, score);
+      }
+    }
+
+    const hits = Array.from(best.values()).sort((a, b) => b.similarity - a.similarity);
+    logger.debug('Fuzzy search', {
+      term,
+      threshold,
+      top: hits.slice(0, 3).map((h) => ({ name: h.product.name, similarity: h.similarity, matchedOn: h.matchedOn })),
+    });
+    return hits;
+  }
+
   /**
    * Resolve a single term to canonical product name with confidence level
    * Used by /api/product/resolve endpoint for Price Agent integration
    */
-  resolveTerm(term: string): ProductResolution {
-    const products = cacheService.getProducts();
+  resolveTerm(term: string, fuzzyThreshold?: number, explain: boolean = false): ProductResolution {
     const normalized = normalize(term);
+    const ambiguity = (options: string[]) => ({
+      ambiguous: options.length > 1,
+      clarifyingQuestion: options.length > 1 ? clarifyingQuestion(options) : null,
+    });
+
+    // Trace of the steps tried, attached with explain=true
+    const trace: ResolutionTrace = { steps: [], synonymCheck: null, matchedOn: null };
+    const finish = (resolution: ProductResolution): ProductResolution =>
+      explain ? { ...resolution, trace } : resolution;
 
     // 1. Exact match on product name
-    const exactMatch = products.find((p) => normalize(p.name) === normalized);
+    const exactMatch = cacheService.getIndex().productsByName.get(normalized)?.product;
+    trace.steps.push({
+      step: 'exact',
+      matched: !!exactMatch,
+      products: exactMatch ? [{ name: exactMatch.name, score: MATCH_SCORES.exact_name }] : [],
+    });
     if (exactMatch) {
       logger.debug('Term resolved (exact match)', { term, canonicalName: exactMatch.name });
-      return {
+      trace.matchedOn = { reason: 'exact_name', field: 'name', value: exactMatch.name };
+      return finish({
         input: term,
         canonicalName: exactMatch.name,
         confidence: 'exact',
+        similarity: 1,
         alternates: [],
         category: exactMatch.category,
-      };
+        ambiguous: false,
+        clarifyingQuestion: null,
+        synonymCandidates: [],
+      });
     }
 
     // 2. Synonym resolution
-    const synonymResolved = this.resolveSynonym(term);
-    if (synonymResolved) {
-      const matchingProducts = this.findProducts(synonymResolved);
+    const synonyms = this.matchSynonyms(term);
+    trace.synonymCheck = { stage: 'query', term, resolved: synonyms.resolved, candidates: synonyms.candidates };
+    if (synonyms.resolved) {
+      const synonymHits = this.searchProducts(synonyms.resolved);
+      const matchingProducts = synonymHits.map((hit) => hit.product);
+      trace.steps.push({ step: 'synonym', matched: true, products: traceProducts(synonymHits) });
+      if (synonymHits[0]) {
+        trace.matchedOn = this.describeMatch(synonymHits[0], synonyms.resolved);
+      }
       const primary = matchingProducts[0];
-      logger.debug('Term resolved (synonym)', { term, canonicalName: synonymResolved });
-      return {
+      logger.debug('Term resolved (synonym)', {
+        term,
+        canonicalName: synonyms.resolved,
+        ambiguous: synonyms.ambiguous,
+      });
+      return finish({
         input: term,
-        canonicalName: synonymResolved,
+        canonicalName: synonyms.resolved,
         confidence: 'synonym',
+        similarity: 1,
         alternates: matchingProducts.slice(1, 4).map((p) => p.name),
         category: primary?.category || null,
-      };
+        ambiguous: synonyms.ambiguous,
+        clarifyingQuestion: synonyms.clarifyingQuestion,
+        synonymCandidates: synonyms.candidates,
+      });
+    }
+    trace.steps.push({ step: 'synonym', matched: false, products: [] });
+
+    // 3a. Partial match via findProducts (term is part of a name, category or other name)
+    const partialHits = this.searchProducts(term);
+    const partialMatches = partialHits.map((hit) => hit.product);
+    trace.steps.push({ step: 'partial', matched: partialHits.length > 0, products: traceProducts(partialHits) });
+    if (partialMatches.length > 0) {
+      logger.debug('Term resolved (partial)', { term, canonicalName: partialMatches[0].name });
+      trace.matchedOn = this.describeMatch(partialHits[0], term);
+      return finish({
+        input: term,
+        canonicalName: partialMatches[0].name,
+        confidence: 'fuzzy',
+        similarity: Math.round(similarity(term, partialMatches[0].name) * 1000) / 1000,
+        alternates: partialMatches.slice(1, 4).map((p) => p.name),
+        category: partialMatches[0].category,
+        ...ambiguity(tiedProductNames(partialHits)),
+        synonymCandidates: [],
+      });
     }
 
-    // 3. Fuzzy/partial match via findProducts
-    const fuzzyMatches = this.findProducts(term);
+    // 3b. Approximate match (typos, missing hyphens)
+    const fuzzyMatches = this.fuzzySearch(term, fuzzyThreshold);
+    trace.steps.push({
+      step: 'fuzzy',
+      matched: fuzzyMatches.length > 0,
+      products: fuzzyMatches
+        .slice(0, MAX_CLARIFYING_OPTIONS)
+        .map((h) => ({ name: h.product.name, score: h.similarity, matchedOn: h.matchedOn })),
+    });
     if (fuzzyMatches.length > 0) {
-      logger.debug('Term resolved (fuzzy)', { term, canonicalName: fuzzyMatches[0].name });
-      return {
+      const primary = fuzzyMatches[0];
+      logger.debug('Term resolved (fuzzy)', {
+        term,
+        canonicalName: primary.product.name,
+        similarity: primary.similarity,
+        matchedOn: primary.matchedOn,
+      });
+      return finish({
         input: term,
-        canonicalName: fuzzyMatches[0].name,
+        canonicalName: primary.product.name,
         confidence: 'fuzzy',
-        alternates: fuzzyMatches.slice(1, 4).map((p) => p.name),
-        category: fuzzyMatches[0].category,
-      };
+        similarity: primary.similarity,
+        alternates: fuzzyMatches.slice(1, 4).map((h) => h.product.name),
+        category: primary.product.category,
+        ...ambiguity(
+          fuzzyMatches.filter((h) => h.similarity >= primary.similarity - SCORE_TIE_MARGIN).map((h) => h.product.name)
+        ),
+        synonymCandidates: [],
+      });
     }
 
     // 4. Not found
     logger.debug('Term not resolved', { term });
-    return {
+    return finish({
       input: term,
       canonicalName: null,
       confidence: 'not_found',
+      similarity: 0,
       alternates: [],
       category: null,
-    };
+      ambiguous: false,
+      clarifyingQuestion: null,
+      synonymCandidates: [],
+    });
   }
 
   /**
    * Resolve multiple terms to canonical product names
    * Batch processing for efficiency
    */
-  resolveTerms(terms: string[]): ProductResolution[] {
-    return terms.map((term) => this.resolveTerm(term));
+  resolveTerms(terms: string[], fuzzyThreshold?: number, explain: boolean = false): ProductResolution[] {
+    return terms.map((term) => this.resolveTerm(term, fuzzyThreshold, explain));
   }
 }
 
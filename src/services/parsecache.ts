@@ -0,0 +1,185 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ParseCacheStats } from '../types/api.js';
+import { config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { formatDate, todayInSingapore } from './calendar.js';
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+// What PARSER_CACHE_PATH holds, oldest entry first
+interface ParseCacheFile {
+  savedAt: string;
+  entries: Array<[string, CacheEntry]>;
+}
+
+// Writes after a parse are batched so a busy minute is one write, not hundreds
+const SAVE_DELAY_MS = 5000;
+
+/**
+ * Cache key for a parse: the kind, the provider's prompt version, today's date (prompts
+ * resolve "by Friday" against it) and the query ignoring case and extra spaces
+ */
+export function parseCacheKey(kind: 'single' | 'multi', promptVersion: string, query: string): string {
+  const text = query.normalize('NFKC').trim().toLowerCase().replace(/\s+/g, ' ');
+  return `${kind}:${promptVersion}:${formatDate(todayInSingapore())}:${text}`;
+}
+
+/**
+ * Least recently used parses with a TTL (PARSER_CACHE_MAX, PARSER_CACHE_TTL_MS), optionally
+ * kept on disk (PARSER_CACHE_PATH). Values are copied in and out, so callers can change them.
+ */
+export class ParseCache {
+  // Map order is least recently used first
+  private entries = new Map<string, CacheEntry>();
+  private loaded: Promise<void> | null = null;
+  private saveTimer: NodeJS.Timeout | null = null;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private expired = 0;
+  private lastClearedAt: Date | null = null;
+
+  get enabled(): boolean {
+    return config.parser.cache.maxEntries > 0;
+  }
+
+  /**
+   * The cached parse for a key, or null if there is none or it has expired
+   */
+  async get<T>(key: string): Promise<T | null> {
+    await this.load();
+
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) {
+        this.entries.delete(key);
+        this.expired++;
+      }
+      this.misses++;
+      return null;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return structuredClone(entry.value) as T;
+  }
+
+  set<T>(key: string, value: T): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value: structuredClone(value), expiresAt: Date.now() + config.parser.cache.ttlMs });
+
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= config.parser.cache.maxEntries) break;
+      this.entries.delete(oldest);
+      this.evictions++;
+    }
+    this.scheduleSave();
+  }
+
+  /**
+   * Drop every cached parse, including the copy on disk. Returns how many were dropped.
+   */
+  async clear(): Promise<number> {
+    await this.load();
+    const cleared = this.entries.size;
+    this.entries.clear();
+    this.lastClearedAt = new Date();
+
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    await this.save();
+
+    logger.info('Parser cache cleared', { cleared });
+    return cleared;
+  }
+
+  getStats(): ParseCacheStats {
+    return {
+      enabled: this.enabled,
+      entries: this.entries.size,
+      maxEntries: config.parser.cache.maxEntries,
+      ttlMs: config.parser.cache.ttlMs,
+      path: config.parser.cache.path || null,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      expired: this.expired,
+      lastClearedAt: this.lastClearedAt?.toISOString() ?? null,
+    };
+  }
+
+  /**
+   * Read the cache file once, before the first lookup. A missing or unreadable file
+   * starts an empty cache.
+   */
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.readFile();
+    }
+    return this.loaded;
+  }
+
+  private async readFile(): Promise<void> {
+    const filePath = config.parser.cache.path;
+    if (!filePath) return;
+
+    try {
+      const file = JSON.parse(await fs.readFile(filePath, 'utf-8')) as ParseCacheFile;
+      if (!Array.isArray(file.entries)) {
+        throw new Error('Parser cache file has no entries');
+      }
+
+      const now = Date.now();
+      for (const [key, entry] of file.entries.slice(-config.parser.cache.maxEntries)) {
+        if (entry.expiresAt > now) this.entries.set(key, entry);
+      }
+      logger.info('Loaded parser cache', { path: filePath, entries: this.entries.size, savedAt: file.savedAt });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn('Failed to load parser cache, starting empty', { path: filePath, error });
+      }
+    }
+  }
+
+  private scheduleSave(): void {
+    if (!config.parser.cache.path || this.saveTimer) return;
+
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, SAVE_DELAY_MS);
+    // A pending save shouldn't keep the process alive on shutdown
+    this.saveTimer.unref();
+  }
+
+  /**
+   * Write the unexpired entries to disk. Failures are logged, never thrown.
+   */
+  private async save(): Promise<void> {
+    const filePath = config.parser.cache.path;
+    if (!filePath) return;
+
+    const now = Date.now();
+    const file: ParseCacheFile = {
+      savedAt: new Date(now).toISOString(),
+      entries: [...this.entries].filter(([, entry]) => entry.expiresAt > now),
+    };
+
+    try {
+      const tempPath = `${filePath}.tmp`;
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify(file), 'utf-8');
+      await fs.rename(tempPath, filePath);
+      logger.debug('Parser cache saved', { path: filePath, entries: file.entries.length });
+    } catch (error) {
+      logger.warn('Failed to save parser cache', { path: filePath, error });
+    }
+  }
+}
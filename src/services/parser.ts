@@ -1,248 +1,147 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { config } from '../utils/config.js';
 import { logger } from '../utils/logger.js';
-import { ParsedQuery, MultiParsedQuery, ParsedQueryItem } from '../types/api.js';
-
-const PARSE_QUERY_PROMPT = `Parse this customer query about promotional products and extract the following information. Return ONLY valid JSON, no other text.
-
-Required fields:
-- productType: What product they're asking about (string)
-- color: Specific color mentioned, or null if not specified
-- quantity: Number of units mentioned, or null if not specified
-- urgent: Whether they indicate urgency (boolean)
-
-Examples:
-- "Do you have white badge case?" -> {"productType":"badge case","color":"white","quantity":null,"urgent":false}
-- "Need 200 pcs of card holders urgently" -> {"productType":"card holders","color":null,"quantity":200,"urgent":true}
-- "Looking for red USB drives, about 500 pieces, no rush" -> {"productType":"USB drives","color":"red","quantity":500,"urgent":false}
-
-Query: "{query}"
-
-Return ONLY the JSON object:`;
-
-const PARSE_MULTI_QUERY_PROMPT = `Parse this customer query about promotional products and extract ALL product requests mentioned. Return ONLY valid JSON array, no other text.
+import {
+  ParsedQuery,
+  MultiParsedQuery,
+  ParserCallStats,
+  ParserFallbackReason,
+  ParserStatsResponse,
+} from '../types/api.js';
+import { AnthropicParserProvider } from './anthropicparser.js';
+import { FixtureParserProvider } from './fixtureparser.js';
+import { RuleParserProvider, fallbackParse, fallbackParseMulti } from './ruleparser.js';
+import { isParserError } from './parseschema.js';
+import { ParseCache, parseCacheKey } from './parsecache.js';
+
+// A provider's parse, and whether it needed a repair round-trip to be valid
+export interface ParserResult<T> {
+  value: T;
+  repaired: boolean;
+}
 
-For EACH product mentioned, extract:
-- productType: What product they're asking about (string)
-- color: Specific color mentioned for this product, or null
-- quantity: Number of units for this product, or null
-- urgent: Whether this specific item is urgent (boolean)
+/**
+ * Turns customer query text into structured product requests.
+ * Implementations: Claude (anthropic), keyword rules (rules) and recorded parses (fixtures).
+ */
+export interface ParserProvider {
+  readonly name: string;
+  // Set by providers worth caching (an API call per parse); changes whenever their prompt does
+  readonly promptVersion?: string;
+  parseQuery(query: string): Promise<ParserResult<ParsedQuery>>;
+  parseMultiQuery(query: string): Promise<ParserResult<MultiParsedQuery>>;
+}
 
-Examples:
-- "1,500 pcs t-shirts, 500 pcs hoodies" -> [{"productType":"t-shirts","color":null,"quantity":1500,"urgent":false},{"productType":"hoodies","color":null,"quantity":500,"urgent":false}]
-- "Need 200 red USB drives and 100 blue pens urgently" -> [{"productType":"USB drives","color":"red","quantity":200,"urgent":true},{"productType":"pens","color":"blue","quantity":100,"urgent":true}]
-- "Looking for white badge cases (500) and black lanyards (1000)" -> [{"productType":"badge cases","color":"white","quantity":500,"urgent":false},{"productType":"lanyards","color":"black","quantity":1000,"urgent":false}]
-- "5000 pcs of card holders, 2000 keychains, and 1000 notebooks" -> [{"productType":"card holders","color":null,"quantity":5000,"urgent":false},{"productType":"keychains","color":null,"quantity":2000,"urgent":false},{"productType":"notebooks","color":null,"quantity":1000,"urgent":false}]
+/**
+ * Create the parser provider selected by PARSER_PROVIDER
+ */
+function createParserProvider(): ParserProvider {
+  if (config.parser.provider === 'rules') {
+    logger.info('Using rules-only query parser');
+    return new RuleParserProvider();
+  }
+  if (config.parser.provider === 'fixtures') {
+    logger.info('Using fixture query parser', { path: config.parser.fixturesPath });
+    return new FixtureParserProvider(config.parser.fixturesPath);
+  }
 
-Query: "{query}"
+  logger.info('Using Claude query parser', { model: config.parser.model });
+  return new AnthropicParserProvider();
+}
 
-Return ONLY the JSON array:`;
+function emptyStats(): ParserCallStats {
+  return {
+    requests: 0,
+    cached: 0,
+    parsed: 0,
+    repaired: 0,
+    fallbacks: 0,
+    fallbackReasons: { timeout: 0, api_error: 0, invalid_output: 0, no_fixture: 0, error: 0 },
+    lastFallback: null,
+  };
+}
 
 class ParserService {
-  private client: Anthropic;
-
-  constructor() {
-    this.client = new Anthropic({
-      apiKey: config.anthropic.apiKey,
-    });
-  }
+  private provider: ParserProvider = createParserProvider();
+  private stats = { single: emptyStats(), multi: emptyStats() };
+  private cache = new ParseCache();
 
   /**
-   * Parse a natural language query using Claude
+   * Parse a natural language query, falling back to keyword rules if the provider fails
    */
   async parseQuery(query: string): Promise<ParsedQuery> {
-    try {
-      const response = await this.client.messages.create({
-        model: 'claude-3-haiku-20240307',
-        max_tokens: 256,
-        messages: [
-          {
-            role: 'user',
-            content: PARSE_QUERY_PROMPT.replace('{query}', query),
-          },
-        ],
-      });
-
-      const content = response.content[0];
-      if (content.type !== 'text') {
-        throw new Error('Unexpected response type from Claude');
-      }
-
-      const parsed = JSON.parse(content.text.trim()) as ParsedQuery;
-
-      logger.debug('Parsed query', { query, parsed });
-
-      return {
-        productType: parsed.productType || query,
-        color: parsed.color || null,
-        quantity: parsed.quantity || null,
-        urgent: parsed.urgent || false,
-      };
-    } catch (error) {
-      logger.warn('Failed to parse query with Claude, using fallback', { error, query });
-      return this.fallbackParse(query);
-    }
+    return this.parseWith('single', query, (q) => this.provider.parseQuery(q), fallbackParse);
   }
 
   /**
-   * Fallback parsing using simple keyword extraction
+   * Parse a natural language query for MULTIPLE products, falling back to keyword rules if the provider fails
    */
-  private fallbackParse(query: string): ParsedQuery {
-    const lowerQuery = query.toLowerCase();
-
-    // Extract quantity
-    const quantityMatch = lowerQuery.match(/(\d+)\s*(pcs?|pieces?|units?|qty)?/);
-    const quantity = quantityMatch ? parseInt(quantityMatch[1], 10) : null;
-
-    // Check for urgency
-    const urgentKeywords = ['urgent', 'urgently', 'asap', 'rush', 'quickly', 'fast'];
-    const urgent = urgentKeywords.some((kw) => lowerQuery.includes(kw));
-
-    // Extract color (common colors)
-    const colors = [
-      'white',
-      'black',
-      'red',
-      'blue',
-      'green',
-      'yellow',
-      'orange',
-      'purple',
-      'pink',
-      'brown',
-      'grey',
-      'gray',
-      'silver',
-      'gold',
-      'tan',
-      'navy',
-      'maroon',
-    ];
-    const foundColor = colors.find((c) => lowerQuery.includes(c)) || null;
-
-    // Remove color, quantity, and urgency keywords to get product type
-    let productType = lowerQuery
-      .replace(/\d+\s*(pcs?|pieces?|units?|qty)?/g, '')
-      .replace(new RegExp(urgentKeywords.join('|'), 'gi'), '')
-      .replace(new RegExp(colors.join('|'), 'gi'), '')
-      .replace(/\b(do you have|need|looking for|want|can i get|any)\b/gi, '')
-      .replace(/\s+/g, ' ')
-      .trim();
-
-    // Clean up common punctuation
-    productType = productType.replace(/[?!.,]+/g, '').trim();
+  async parseMultiQuery(query: string): Promise<MultiParsedQuery> {
+    return this.parseWith('multi', query, (q) => this.provider.parseMultiQuery(q), fallbackParseMulti);
+  }
 
+  /**
+   * How often each kind of parse came from the cache, succeeded, needed a repair, or fell back (and why)
+   */
+  getStats(): ParserStatsResponse {
     return {
-      productType: productType || query,
-      color: foundColor,
-      quantity,
-      urgent,
+      provider: this.provider.name,
+      model: this.provider.name === 'anthropic' ? config.parser.model : null,
+      promptVersion: this.provider.promptVersion ?? null,
+      single: structuredClone(this.stats.single),
+      multi: structuredClone(this.stats.multi),
+      cache: this.cache.getStats(),
     };
   }
 
   /**
-   * Parse a natural language query for MULTIPLE products using Claude
+   * Drop every cached parse. Returns how many were dropped.
    */
-  async parseMultiQuery(query: string): Promise<MultiParsedQuery> {
-    try {
-      const response = await this.client.messages.create({
-        model: 'claude-3-haiku-20240307',
-        max_tokens: 1024,
-        messages: [
-          {
-            role: 'user',
-            content: PARSE_MULTI_QUERY_PROMPT.replace('{query}', query),
-          },
-        ],
-      });
+  async clearCache(): Promise<number> {
+    return this.cache.clear();
+  }
 
-      const content = response.content[0];
-      if (content.type !== 'text') {
-        throw new Error('Unexpected response type from Claude');
+  private async parseWith<T>(
+    kind: 'single' | 'multi',
+    query: string,
+    parse: (query: string) => Promise<ParserResult<T>>,
+    fallback: (query: string) => T
+  ): Promise<T> {
+    const stats = this.stats[kind];
+    stats.requests++;
+
+    const { promptVersion } = this.provider;
+    const key = promptVersion && this.cache.enabled ? parseCacheKey(kind, promptVersion, query) : null;
+    if (key) {
+      const cached = await this.cache.get<T>(key);
+      if (cached) {
+        stats.cached++;
+        logger.debug('Parsed query from cache', { kind, query, provider: this.provider.name, parsed: cached });
+        return cached;
       }
-
-      const parsed = JSON.parse(content.text.trim()) as ParsedQueryItem[];
-
-      logger.debug('Parsed multi-query', { query, itemCount: parsed.length, parsed });
-
-      // Check for global urgency keywords
-      const urgentKeywords = ['urgent', 'urgently', 'asap', 'rush', 'quickly', 'fast'];
-      const globalUrgent = urgentKeywords.some((kw) => query.toLowerCase().includes(kw));
-
-      return {
-        items: parsed.map((item) => ({
-          productType: item.productType || '',
-          color: item.color || null,
-          quantity: item.quantity || null,
-          urgent: item.urgent || globalUrgent,
-        })),
-        globalUrgent,
-      };
-    } catch (error) {
-      logger.warn('Failed to parse multi-query with Claude, using fallback', { error, query });
-      return this.fallbackParseMulti(query);
     }
-  }
-
-  /**
-   * Fallback parsing for multiple products using regex patterns
-   */
-  private fallbackParseMulti(query: string): MultiParsedQuery {
-    const items: ParsedQueryItem[] = [];
-    const lowerQuery = query.toLowerCase();
-
-    // Check for urgency
-    const urgentKeywords = ['urgent', 'urgently', 'asap', 'rush', 'quickly', 'fast'];
-    const globalUrgent = urgentKeywords.some((kw) => lowerQuery.includes(kw));
-
-    // Colors to detect
-    const colors = [
-      'white', 'black', 'red', 'blue', 'green', 'yellow', 'orange',
-      'purple', 'pink', 'brown', 'grey', 'gray', 'silver', 'gold', 'tan', 'navy', 'maroon',
-    ];
-
-    // Pattern: "1,500 pcs t-shirts" or "500 hoodies" or "t-shirts (500)"
-    const pattern = /(\d{1,3}(?:,\d{3})*|\d+)\s*(?:pcs?|pieces?|units?)?\s*(?:of\s+)?([a-zA-Z][a-zA-Z\s-]*?)(?=[,;]|\s+and\s+|\s+\d|$|\))/gi;
-
-    const matches = [...query.matchAll(pattern)];
-
-    for (const match of matches) {
-      const quantity = parseInt(match[1].replace(/,/g, ''), 10);
-      let productType = match[2].trim();
-
-      // Skip if product type is too short or just whitespace
-      if (productType.length < 2) continue;
 
-      // Extract color if present in product type
-      let foundColor: string | null = null;
-      for (const color of colors) {
-        if (productType.toLowerCase().includes(color)) {
-          foundColor = color;
-          productType = productType.replace(new RegExp(`\\b${color}\\b`, 'gi'), '').trim();
-          break;
-        }
+    try {
+      const { value, repaired } = await parse(query);
+      stats.parsed++;
+      if (repaired) {
+        stats.repaired++;
       }
-
-      // Clean up product type
-      productType = productType.replace(/\s+/g, ' ').trim();
-
-      if (productType.length > 0) {
-        items.push({
-          productType,
-          color: foundColor,
-          quantity: quantity > 0 ? quantity : null,
-          urgent: globalUrgent,
-        });
+      // Fallback parses aren't cached, so the provider is tried again next time
+      if (key) {
+        this.cache.set(key, value);
       }
+      logger.debug('Parsed query', { kind, query, provider: this.provider.name, repaired, parsed: value });
+      return value;
+    } catch (error) {
+      const reason: ParserFallbackReason = isParserError(error) ? error.reason : 'error';
+      const message = error instanceof Error ? error.message : String(error);
+      stats.fallbacks++;
+      stats.fallbackReasons[reason]++;
+      stats.lastFallback = { reason, message, at: new Date().toISOString() };
+
+      logger.warn('Failed to parse query, using fallback', { kind, provider: this.provider.name, reason, message, query });
+      return fallback(query);
     }
-
-    // If no items found, fall back to single parse
-    if (items.length === 0) {
-      const singleParsed = this.fallbackParse(query);
-      items.push(singleParsed);
-    }
-
-    return { items, globalUrgent };
   }
 }
 
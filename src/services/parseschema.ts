@@ -0,0 +1,338 @@
+import {
+  ColorLine,
+  DecorationMethod,
+  ParsedQuery,
+  ParsedQueryItem,
+  ParserFallbackReason,
+  QuantityDetail,
+} from '../types/api.js';
+import { DECORATION_METHODS, findDecorationMethod, parseDateText } from './querydetails.js';
+import { parseQuantity, piecesDetail, totalQuantity } from './quantity.js';
+
+/**
+ * Error from a parser provider, tagged with the reason recorded in the fallback metrics
+ */
+export interface ParserError extends Error {
+  reason: ParserFallbackReason;
+}
+
+export function createParserError(reason: ParserFallbackReason, message: string): ParserError {
+  const error = new Error(message) as ParserError;
+  error.reason = reason;
+  return error;
+}
+
+export function isParserError(error: unknown): error is ParserError {
+  return error instanceof Error && typeof (error as Partial<ParserError>).reason === 'string';
+}
+
+const QUANTITY_PROPERTY = {
+  type: ['integer', 'string', 'null'],
+  description:
+    'Number of pieces, or the quantity as written when it has a range or units ("500-1000 pcs", "2 dozen", "10 cartons of 50"), or null',
+};
+
+const PARSED_ITEM_PROPERTIES = {
+  productType: { type: 'string', description: "The product they're asking about, as the customer wrote it" },
+  color: { type: ['string', 'null'], description: 'Specific colour mentioned, or null' },
+  quantity: QUANTITY_PROPERTY,
+  urgent: { type: 'boolean', description: 'Whether they indicate urgency' },
+  deadline: { type: ['string', 'null'], description: 'Date they need it by, as YYYY-MM-DD, or null' },
+  deliveryArea: { type: ['string', 'null'], description: 'Where to deliver, as the customer wrote it, or null' },
+  decorationMethod: {
+    type: ['string', 'null'],
+    enum: [...DECORATION_METHODS, null],
+    description: 'How the logo is applied (plain "print" if the method is not named), or null',
+  },
+  printColors: { type: ['integer', 'null'], description: 'Number of colours in the printed logo, or null' },
+  packaging: { type: ['string', 'null'], description: 'Packaging asked for, e.g. "gift box", or null' },
+  requirements: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Any other requirements, in the customer\'s words',
+  },
+};
+
+const PARSED_QUERY_PROPERTIES = {
+  ...PARSED_ITEM_PROPERTIES,
+  colorLines: {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: { color: { type: 'string' }, quantity: QUANTITY_PROPERTY },
+      required: ['color', 'quantity'],
+      additionalProperties: false,
+    },
+    description: 'Only when several colours get their own quantity ("200 red and 300 blue"): one entry per colour',
+  },
+};
+
+const ITEM_FIELDS = Object.keys(PARSED_ITEM_PROPERTIES);
+const QUERY_FIELDS = Object.keys(PARSED_QUERY_PROPERTIES);
+// Order details may be left out; they default to null / []
+const REQUIRED_FIELDS = ['productType', 'color', 'quantity', 'urgent'];
+
+// JSON schema for one parsed product request (tool input for single-product parses)
+export const PARSED_QUERY_SCHEMA = {
+  type: 'object' as const,
+  properties: PARSED_QUERY_PROPERTIES,
+  required: REQUIRED_FIELDS,
+  additionalProperties: false,
+};
+
+// JSON schema for a multi-product parse: { items: [...] }, one item per product and colour
+export const PARSED_ITEMS_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    items: {
+      type: 'array',
+      items: { type: 'object', properties: PARSED_ITEM_PROPERTIES, required: REQUIRED_FIELDS, additionalProperties: false },
+      description: 'One entry per product mentioned, and per colour when colours have their own quantity',
+    },
+  },
+  required: ['items'],
+  additionalProperties: false,
+};
+
+const NOT_GIVEN = ['', 'none', 'null', 'n/a', 'na', 'not specified', 'unspecified'];
+const TRUE_WORDS = ['true', 'yes', 'y', '1'];
+const FALSE_WORDS = ['false', 'no', 'n', '0', ''];
+
+// First number in a string: "2", "2 colours", "about 3"
+const COUNT_PATTERN = /(\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?)\s*(k\b)?/i;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function normalizeCount(value: unknown, field: string, problems: string[]): number | null {
+  if (value === null || value === undefined) return null;
+
+  let quantity: number;
+  if (typeof value === 'number') {
+    quantity = value;
+  } else if (typeof value === 'string') {
+    if (value.trim() === '') return null;
+    const match = value.match(COUNT_PATTERN);
+    if (!match) {
+      problems.push(`${field} "${value}" is not a number`);
+      return null;
+    }
+    quantity = parseFloat(match[1].replace(/,/g, '')) * (match[2] ? 1000 : 1);
+  } else {
+    problems.push(`${field} must be a number or null`);
+    return null;
+  }
+
+  if (!Number.isFinite(quantity) || quantity < 0) {
+    problems.push(`${field} must be a positive number`);
+    return null;
+  }
+  // 0 means the customer didn't say
+  return quantity === 0 ? null : Math.round(quantity);
+}
+
+/**
+ * Pieces and how they were written; strings go through the quantity grammar ("2 dozen" -> 24)
+ */
+function normalizeQuantity(
+  value: unknown,
+  field: string,
+  problems: string[]
+): { quantity: number | null; detail: QuantityDetail | null } {
+  if (typeof value === 'string' && value.trim() !== '') {
+    const detail = parseQuantity(value);
+    if (!detail) {
+      problems.push(`${field} "${value}" is not a quantity`);
+      return { quantity: null, detail: null };
+    }
+    return { quantity: detail.min, detail };
+  }
+
+  const quantity = normalizeCount(value, field, problems);
+  return { quantity, detail: quantity === null ? null : piecesDetail(quantity) };
+}
+
+function normalizeColorLines(value: unknown, field: string, problems: string[]): ColorLine[] {
+  if (value === null || value === undefined) return [];
+  if (!Array.isArray(value)) {
+    problems.push(`${field} must be a list`);
+    return [];
+  }
+
+  const lines: ColorLine[] = [];
+  value.forEach((entry, i) => {
+    const label = `${field}[${i}]`;
+    const color = isObject(entry) ? normalizeText(entry.color, `${label}: color`, problems) : null;
+    const { quantity, detail } = normalizeQuantity(isObject(entry) ? entry.quantity : null, `${label}: quantity`, problems);
+    if (!color || !detail) {
+      problems.push(`${label} needs a colour and a quantity`);
+      return;
+    }
+    lines.push({ color, quantity, quantityDetail: detail });
+  });
+  return lines;
+}
+
+function normalizeUrgent(value: unknown, field: string, problems: string[]): boolean {
+  if (value === null || value === undefined) return false;
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number' && (value === 0 || value === 1)) return value === 1;
+  if (typeof value === 'string') {
+    const lower = value.trim().toLowerCase();
+    if (TRUE_WORDS.includes(lower)) return true;
+    if (FALSE_WORDS.includes(lower)) return false;
+  }
+  problems.push(`${field} must be true or false`);
+  return false;
+}
+
+// Trimmed text, with "none", "n/a" and the like read as not given
+function normalizeText(value: unknown, field: string, problems: string[]): string | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== 'string') {
+    problems.push(`${field} must be a string or null`);
+    return null;
+  }
+  const text = value.trim();
+  return NOT_GIVEN.includes(text.toLowerCase()) ? null : text;
+}
+
+function normalizeDeadline(value: unknown, field: string, problems: string[]): string | null {
+  const text = normalizeText(value, field, problems);
+  if (text === null) return null;
+
+  // Accept "15 Dec" and the like as well as YYYY-MM-DD
+  const deadline = parseDateText(text);
+  if (!deadline) {
+    problems.push(`${field} "${text}" must be a date in YYYY-MM-DD format`);
+  }
+  return deadline;
+}
+
+function normalizeDecoration(value: unknown, field: string, problems: string[]): DecorationMethod | null {
+  const text = normalizeText(value, field, problems);
+  if (text === null) return null;
+
+  const lower = text.toLowerCase().replace(/[\s-]+/g, '_');
+  const method = DECORATION_METHODS.find((m) => m === lower) ?? findDecorationMethod(text);
+  if (!method) {
+    problems.push(`${field} "${text}" must be one of ${DECORATION_METHODS.join(', ')}`);
+  }
+  return method;
+}
+
+function normalizeRequirements(value: unknown, field: string, problems: string[]): string[] {
+  if (value === null || value === undefined) return [];
+  if (typeof value === 'string') return value.trim() ? [value.trim()] : [];
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+    problems.push(`${field} must be a list of strings`);
+    return [];
+  }
+  return value.map((item: string) => item.trim()).filter((item) => item.length > 0);
+}
+
+function normalizeItem(
+  input: unknown,
+  label: string,
+  problems: string[],
+  fields: string[] = ITEM_FIELDS
+): ParsedQueryItem | null {
+  if (!isObject(input)) {
+    problems.push(`${label} must be an object`);
+    return null;
+  }
+
+  const before = problems.length;
+  for (const key of Object.keys(input)) {
+    if (!fields.includes(key)) {
+      problems.push(`${label}: unexpected field "${key}"`);
+    }
+  }
+
+  const productType = typeof input.productType === 'string' ? input.productType.trim() : '';
+  if (!productType) {
+    problems.push(`${label}: productType is required`);
+  }
+
+  const { quantity, detail } = normalizeQuantity(input.quantity, `${label}: quantity`, problems);
+  const item: ParsedQueryItem = {
+    productType,
+    color: normalizeText(input.color, `${label}: color`, problems),
+    quantity,
+    quantityDetail: detail,
+    urgent: normalizeUrgent(input.urgent, `${label}: urgent`, problems),
+    deadline: normalizeDeadline(input.deadline, `${label}: deadline`, problems),
+    deliveryArea: normalizeText(input.deliveryArea, `${label}: deliveryArea`, problems),
+    decorationMethod: normalizeDecoration(input.decorationMethod, `${label}: decorationMethod`, problems),
+    printColors: normalizeCount(input.printColors, `${label}: printColors`, problems),
+    packaging: normalizeText(input.packaging, `${label}: packaging`, problems),
+    requirements: normalizeRequirements(input.requirements, `${label}: requirements`, problems),
+  };
+  return problems.length === before ? item : null;
+}
+
+/**
+ * Validate a single-product parse and normalize field types ("2 dozen" -> 24, "yes" -> true, "15 Dec" -> "2026-12-15").
+ * Returns every problem found; parsed is null when there are any.
+ */
+export function validateParsedQuery(input: unknown): { parsed: ParsedQuery | null; errors: string[] } {
+  const errors: string[] = [];
+  const item = normalizeItem(input, 'result', errors, QUERY_FIELDS);
+  const colorLines = normalizeColorLines(isObject(input) ? input.colorLines : null, 'result: colorLines', errors);
+  if (!item || errors.length > 0) {
+    return { parsed: null, errors };
+  }
+
+  // Split by colour: the quantity is the total and there's no single colour
+  const parsed: ParsedQuery =
+    colorLines.length > 1
+      ? { ...item, color: null, quantity: totalQuantity(colorLines), quantityDetail: null, colorLines }
+      : { ...item, colorLines: [] };
+  return { parsed, errors };
+}
+
+/**
+ * Validate a multi-product parse ({ items: [...] } or a bare array) and normalize each item
+ */
+export function validateParsedItems(input: unknown): { items: ParsedQueryItem[] | null; errors: string[] } {
+  const errors: string[] = [];
+  const list = Array.isArray(input) ? input : isObject(input) ? input.items : undefined;
+
+  if (!Array.isArray(list)) {
+    return { items: null, errors: ['items must be an array'] };
+  }
+  if (isObject(input)) {
+    for (const key of Object.keys(input)) {
+      if (key !== 'items') errors.push(`unexpected field "${key}"`);
+    }
+  }
+  if (list.length === 0) {
+    errors.push('items must list at least one product');
+  }
+
+  const items = list.map((item, i) => normalizeItem(item, `items[${i}]`, errors));
+  return {
+    items: errors.length === 0 ? items.filter((item): item is ParsedQueryItem => item !== null) : null,
+    errors,
+  };
+}
+
+/**
+ * Pull the JSON value out of a text reply that may wrap it in prose or a code fence
+ */
+export function extractJson(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const body = (fenced ? fenced[1] : text).trim();
+
+  const start = body.search(/[[{]/);
+  if (start === -1) {
+    throw createParserError('invalid_output', 'Reply contains no JSON');
+  }
+  const end = Math.max(body.lastIndexOf('}'), body.lastIndexOf(']'));
+  try {
+    return JSON.parse(body.slice(start, end + 1));
+  } catch {
+    throw createParserError('invalid_output', 'Reply contains malformed JSON');
+  }
+}
@@ -0,0 +1,216 @@
+import { ProductSheetRow, SynonymSheetRow, SheetLayout } from '../types/sheets.js';
+import {
+  DataQualityIssue,
+  DataQualityIssueCode,
+  DataQualityResponse,
+  DataQualityRowReport,
+} from '../types/api.js';
+import { logger } from '../utils/logger.js';
+import { isTruthy, isFalsy, isPlainNumber, parseNumber, normalize } from '../utils/helpers.js';
+import { productRepository } from './repository.js';
+import { matcherService } from './matcher.js';
+import { parseLeadTime } from './delivery.js';
+import { TABS, FIRST_DATA_ROW, PRODUCT_HEADERS, SYNONYM_HEADERS, columnLetter, toProduct } from './layout.js';
+
+const NUMBER_FIELDS: Array<keyof ProductSheetRow> = ['localMoq', 'chinaMoq'];
+const BOOLEAN_FIELDS: Array<keyof ProductSheetRow> = ['chinaAvailable', 'chinaAir', 'chinaSea'];
+
+class DataQualityService {
+  /**
+   * Check every Products and Synonyms row for values the agent would silently misread
+   */
+  async checkDataQuality(): Promise<DataQualityResponse> {
+    const [productSheet, synonymSheet] = await Promise.all([
+      productRepository.getProductSheet(),
+      productRepository.getSynonymSheet(),
+    ]);
+
+    const reports = new Map<string, DataQualityRowReport>();
+    const addIssue = (
+      tab: DataQualityRowReport['tab'],
+      row: number,
+      label: string,
+      issue: DataQualityIssue
+    ) => {
+      const key = `${tab}:${row}`;
+      let report = reports.get(key);
+      if (!report) {
+        report = { tab, row, label, issues: [] };
+        reports.set(key, report);
+      }
+      report.issues.push(issue);
+    };
+
+    const productColumn = (field: keyof ProductSheetRow) =>
+      this.columnLabel(productSheet.layout, field, PRODUCT_HEADERS[field]);
+    const synonymColumn = (field: keyof SynonymSheetRow) =>
+      this.columnLabel(synonymSheet.layout, field, SYNONYM_HEADERS[field]);
+
+    const products = productSheet.rows.map((row) => toProduct(row));
+    const urlRows = new Map<string, number[]>();
+    const nameRows = new Map<string, number[]>();
+
+    productSheet.rows.forEach((row, index) => {
+      if (this.isBlankRow(row)) return;
+
+      const rowNumber = index + FIRST_DATA_ROW;
+      const label = row.productName || row.websiteUrl || `Row ${rowNumber}`;
+      const product = products[index];
+
+      for (const field of NUMBER_FIELDS) {
+        const value = row[field];
+        if (value.trim() !== '' && !isPlainNumber(value)) {
+          const readAs = parseNumber(value);
+          addIssue(TABS.products, rowNumber, label, {
+            column: productColumn(field),
+            code: 'UNPARSEABLE_NUMBER',
+            severity: 'error',
+            value,
+            message: readAs === null
+              ? `"${value}" is not a number and is ignored`
+              : `"${value}" is not a plain number and is read as ${readAs}`,
+          });
+        }
+      }
+
+      for (const field of BOOLEAN_FIELDS) {
+        const value = row[field];
+        if (value.trim() !== '' && !isTruthy(value) && !isFalsy(value)) {
+          addIssue(TABS.products, rowNumber, label, {
+            column: productColumn(field),
+            code: 'AMBIGUOUS_BOOLEAN',
+            severity: 'error',
+            value,
+            message: `"${value}" is not a recognised yes/no value and is treated as "No"`,
+          });
+        }
+      }
+
+      if (row.localLeadTime.trim() !== '' && !parseLeadTime(row.localLeadTime)) {
+        addIssue(TABS.products, rowNumber, label, {
+          column: productColumn('localLeadTime'),
+          code: 'UNPARSEABLE_LEAD_TIME',
+          severity: 'warning',
+          value: row.localLeadTime,
+          message: `"${row.localLeadTime}" is not a recognised lead time (e.g. "5-7 working days"), so deadlines can't be checked`,
+        });
+      }
+
+      if (product.sourcing.china.available && row.chinaMoq.trim() === '') {
+        addIssue(TABS.products, rowNumber, label, {
+          column: productColumn('chinaMoq'),
+          code: 'CHINA_MOQ_MISSING',
+          severity: 'warning',
+          value: '',
+          message: 'China sourcing is available but China MOQ is empty',
+        });
+      }
+
+      // Checked directly: custom sourcing rules may recommend nothing for a product that has sourcing
+      const { local, china } = product.sourcing;
+      if (local.supplier.trim() === '' && !china.available) {
+        addIssue(TABS.products, rowNumber, label, {
+          column: `${productColumn('localSupplier')}, ${productColumn('chinaAvailable')}`,
+          code: 'SOURCING_MISSING',
+          severity: 'warning',
+          value: '',
+          message: 'Both local and China sourcing details are missing',
+        });
+      }
+
+      if (row.websiteUrl.trim() !== '') {
+        const key = row.websiteUrl.trim().toLowerCase().replace(/\/$/, '');
+        urlRows.set(key, [...(urlRows.get(key) || []), rowNumber]);
+      }
+      if (row.productName.trim() !== '') {
+        const key = normalize(row.productName);
+        nameRows.set(key, [...(nameRows.get(key) || []), rowNumber]);
+      }
+    });
+
+    const reportDuplicates = (
+      groups: Map<string, number[]>,
+      field: keyof ProductSheetRow,
+      code: DataQualityIssueCode,
+      severity: DataQualityIssue['severity']
+    ) => {
+      for (const rowNumbers of groups.values()) {
+        if (rowNumbers.length < 2) continue;
+        for (const rowNumber of rowNumbers) {
+          const row = productSheet.rows[rowNumber - FIRST_DATA_ROW];
+          const others = rowNumbers.filter((n) => n !== rowNumber);
+          addIssue(TABS.products, rowNumber, row.productName || row.websiteUrl, {
+            column: productColumn(field),
+            code,
+            severity,
+            value: row[field],
+            message: `Duplicate of row ${others.join(', ')}`,
+          });
+        }
+      }
+    };
+
+    reportDuplicates(urlRows, 'websiteUrl', 'DUPLICATE_URL', 'error');
+    reportDuplicates(nameRows, 'productName', 'DUPLICATE_NAME', 'warning');
+
+    synonymSheet.rows.forEach((row, index) => {
+      if (this.isBlankRow(row) || row.weCallIt.trim() === '') return;
+
+      const rowNumber = index + FIRST_DATA_ROW;
+      const hasProduct = products.some((product) => matcherService.matchesTerm(product, row.weCallIt));
+      if (!hasProduct) {
+        addIssue(TABS.synonyms, rowNumber, row.customerSays || `Row ${rowNumber}`, {
+          column: synonymColumn('weCallIt'),
+          code: 'UNKNOWN_SYNONYM_TARGET',
+          severity: 'error',
+          value: row.weCallIt,
+          message: `"${row.weCallIt}" does not match any product`,
+        });
+      }
+    });
+
+    const rows = Array.from(reports.values()).sort((a, b) =>
+      a.tab === b.tab ? a.row - b.row : a.tab === TABS.products ? -1 : 1
+    );
+    const issues = rows.flatMap((r) => r.issues);
+    const byCode: Partial<Record<DataQualityIssueCode, number>> = {};
+    for (const issue of issues) {
+      byCode[issue.code] = (byCode[issue.code] || 0) + 1;
+    }
+
+    const report: DataQualityResponse = {
+      checkedAt: new Date().toISOString(),
+      productsChecked: productSheet.rows.length,
+      synonymsChecked: synonymSheet.rows.length,
+      unknownColumns: {
+        products: productSheet.layout.unknownColumns,
+        synonyms: synonymSheet.layout.unknownColumns,
+      },
+      totals: {
+        rowsWithIssues: rows.length,
+        errors: issues.filter((i) => i.severity === 'error').length,
+        warnings: issues.filter((i) => i.severity === 'warning').length,
+        byCode,
+      },
+      rows,
+    };
+
+    logger.info('Data quality check completed', {
+      productsChecked: report.productsChecked,
+      synonymsChecked: report.synonymsChecked,
+      ...report.totals,
+    });
+
+    return report;
+  }
+
+  private columnLabel<T>(layout: SheetLayout<T>, field: keyof T, header: string): string {
+    return `${columnLetter(layout.columns[field])} (${header})`;
+  }
+
+  private isBlankRow(row: object): boolean {
+    return Object.values(row).every((value) => String(value).trim() === '');
+  }
+}
+
+export const dataQualityService = new DataQualityService();
@@ -0,0 +1,225 @@
+import { ColorLine, QuantityDetail, QuantityUnit } from '../types/api.js';
+import { findColorInText, removeColorFromText } from './colors.js';
+
+// A quantity found in text, with where it sits
+export interface QuantityMatch {
+  detail: QuantityDetail;
+  index: number;
+  end: number;
+  // Written as a quantity (unit, range, "k", "qty", "x N") rather than a bare number
+  marked: boolean;
+}
+
+// One quantity in a query with the colour and product written after it
+export interface QuantityLine {
+  detail: QuantityDetail;
+  color: string | null;
+  productType: string;
+}
+
+// "500", "1,500", "1.5k", "2k"
+const AMOUNT = String.raw`(?:\d{1,3}(?:,\d{3})+(?!\d)|\d+(?:\.\d+)?)(?:\s?k\b)?`;
+
+const UNIT = String.raw`pieces?|pcs?|units?|dozens?|doz|cartons?|ctns?|boxes|box|packs?|cases?|bundles?`;
+
+// Numbers that are something else: "2-colour", "5 days", "15 Dec", "15/12", "50%", "10cm", "10 x 20"
+const NOT_A_QUANTITY = String.raw`\s*(?:%|/|-\s*\d|[x×]\s*\d|-?\s*colou?rs?\b|(?:working|business|calendar)\b|(?:days?|weeks?|wks?|months?|years?|hours?|hrs?|mins?|minutes?)\b|(?:mm|cm|m|ml|l|kg|g|gb|tb|oz|inch(?:es)?|ft)\b|"|(?:am|pm|st|nd|rd|th)\b|(?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\b)`;
+
+// [qty: | x] between A and B | A[-B] [unit [of N [pcs] [each]]]
+const QUANTITY_PATTERN = new RegExp(
+  String.raw`(?<![\w.,/-])(?:(qty|quantity)\s*[:=]?\s*|([x×])\s*)?(?:between\s+(${AMOUNT})\s+and\s+(${AMOUNT})|(${AMOUNT})(?:\s*(?:-|–|~|to)\s*(${AMOUNT}))?)` +
+    String.raw`(?!\d)(?!${NOT_A_QUANTITY})` +
+    String.raw`(?:\s*(${UNIT})\b(?:\s*(?:of|x|×|@)\s*(${AMOUNT})(?:\s*(?:pcs?|pieces?|units?)\b)?(?:\s+each\b)?)?)?`,
+  'gi'
+);
+
+const UNITS: Array<[RegExp, QuantityUnit]> = [
+  [/^(?:pieces?|pcs?|units?)$/i, 'piece'],
+  [/^(?:dozens?|doz)$/i, 'dozen'],
+  [/^(?:cartons?|ctns?)$/i, 'carton'],
+  [/^box(?:es)?$/i, 'box'],
+  [/^packs?$/i, 'pack'],
+  [/^cases?$/i, 'case'],
+  [/^bundles?$/i, 'bundle'],
+];
+
+const UNIT_SIZES: Partial<Record<QuantityUnit, number>> = { piece: 1, dozen: 12 };
+
+// Units that may be the product itself ("100 boxes"), so only counted as a unit with a size or "of"
+const LOOSE_UNITS: QuantityUnit[] = ['box', 'pack', 'case', 'bundle'];
+
+// Words between a quantity and what it's for: "pcs of", "in"
+const LEADING_WORDS = /^\s*(?:of\s+|in\s+)?/i;
+// What separates one product line from the next
+const LINE_SEPARATOR = /[,;()&+]|\band\b/gi;
+const FILLER = /\b(?:do you have|need|looking for|want|can i get|any|qty|quantity)\b:?/gi;
+
+function toNumber(text: string): number {
+  const thousands = /k$/i.test(text.trim());
+  const value = parseFloat(text.replace(/[,\sk]/gi, ''));
+  return thousands ? value * 1000 : value;
+}
+
+function toUnit(text: string | undefined): QuantityUnit {
+  if (!text) return 'piece';
+  return UNITS.find(([pattern]) => pattern.test(text))?.[1] ?? 'piece';
+}
+
+/**
+ * Whether a bare number (no unit or marker) reads as a quantity: it does unless it's a
+ * decimal ("usb 3.0") or joined to a word ("3-in-1", "3d"), as then it's part of a name.
+ * Sizes and units after it ("16gb", "10cm") are already ruled out by the pattern.
+ */
+function isBareQuantity(amount: string, after: string): boolean {
+  return !amount.includes('.') && !/^(?:-\s*)?[a-z]/i.test(after);
+}
+
+function pieces(count: number, size: number | null): number | null {
+  return size === null ? null : Math.round(count * size);
+}
+
+/**
+ * Detail for a plain number of pieces (e.g. a quantity given in the request body)
+ */
+export function piecesDetail(quantity: number): QuantityDetail {
+  return {
+    text: String(quantity),
+    unit: 'piece',
+    unitCount: { min: quantity, max: quantity },
+    unitSize: 1,
+    min: quantity,
+    max: quantity,
+  };
+}
+
+/**
+ * Find every quantity in text: ranges ("500-1000 pcs", "between 2k and 3k"), thousands
+ * ("1.5k", "1,500") and units with pack sizes ("2 dozen", "10 cartons of 50"). Numbers
+ * that are dates, sizes, lead times or print colours are skipped.
+ */
+export function findQuantities(text: string): QuantityMatch[] {
+  const found: QuantityMatch[] = [];
+
+  for (const match of text.matchAll(QUANTITY_PATTERN)) {
+    const [whole, keyword, times, betweenFrom, betweenTo, from, to, unitText, sizeText] = match;
+    const start = toNumber(betweenFrom ?? from);
+    const end = toNumber(betweenTo ?? to ?? betweenFrom ?? from);
+    const [low, high] = start <= end ? [start, end] : [end, start];
+    if (!Number.isFinite(low) || low <= 0) continue;
+
+    let unit = toUnit(unitText);
+    let length = whole.length;
+    const after = text.slice(match.index! + whole.length);
+    if (LOOSE_UNITS.includes(unit) && !sizeText && !/^\s+of\b/i.test(after)) {
+      // "100 boxes": the boxes are what's being ordered
+      length = whole.toLowerCase().lastIndexOf(unitText.toLowerCase());
+      unit = 'piece';
+    }
+
+    // A unit only marks a quantity when it was kept ("100 pcs", not "100 boxes")
+    const marked = !!(keyword || times || betweenFrom || to || /k$/i.test(from ?? '') || (unitText && length === whole.length));
+    if (!marked && !isBareQuantity(from, text.slice(match.index! + from.length))) continue;
+
+    // "qty:" and "x" are removed with the quantity but aren't part of how it was written
+    const lead = whole.match(/^(?:qty|quantity|x|×)\s*[:=]?\s*/i)?.[0].length ?? 0;
+    const unitSize = sizeText ? toNumber(sizeText) : UNIT_SIZES[unit] ?? null;
+    found.push({
+      detail: {
+        text: whole.slice(keyword || times ? lead : 0, length).trim(),
+        unit,
+        unitCount: { min: low, max: high },
+        unitSize,
+        min: pieces(low, unitSize),
+        max: pieces(high, unitSize),
+      },
+      index: match.index!,
+      end: match.index! + length,
+      marked,
+    });
+  }
+  return found;
+}
+
+/**
+ * The quantity a text is most likely asking for: the first one written as a quantity
+ * ("100 pcs", "qty 100", "x 100"), else the first bare number
+ */
+export function mainQuantity(found: QuantityMatch[]): QuantityMatch | null {
+  return found.find((q) => q.marked) ?? found[0] ?? null;
+}
+
+/**
+ * The main quantity in text, or null
+ */
+export function parseQuantity(text: string): QuantityDetail | null {
+  return mainQuantity(findQuantities(text))?.detail ?? null;
+}
+
+/**
+ * Split text into one line per quantity, with the colour and product written after it
+ * up to the next separator. Colour-only lines ("200 red and 300 blue mugs",
+ * "mugs: 200 red, 300 blue") take the product from the next line, or the text before.
+ */
+export function quantityLines(text: string): QuantityLine[] {
+  // Where each part of the text starts; a bare number sharing a part with a marked quantity
+  // is part of the name ("3 in 1 cable 200pcs")
+  const starts = [0, ...Array.from(text.matchAll(LINE_SEPARATOR), (m) => m.index! + m[0].length)];
+  const partOf = (q: QuantityMatch) => starts.filter((start) => start <= q.index).length;
+  const all = findQuantities(text);
+  const found = all.filter((q) => q.marked || !all.some((other) => other.marked && partOf(other) === partOf(q)));
+
+  const lines = found.map((q, i) => {
+    const next = i + 1 < found.length ? found[i + 1].index : text.length;
+    const after = text
+      .slice(q.end, next)
+      .split(LINE_SEPARATOR)[0]
+      .replace(LEADING_WORDS, '');
+    // Product written before its quantity: "3-in-1 cable 100 pcs, usb drive x 200"
+    const preceding = text
+      .slice(i > 0 ? found[i - 1].end : 0, q.index)
+      .split(LINE_SEPARATOR)
+      .pop()!
+      .replace(FILLER, ' ');
+    const segment = after.trim() ? after : preceding;
+
+    const color = findColorInText(segment);
+    const productType = (color ? removeColorFromText(segment, color) : segment)
+      .replace(/\b(?:in|of)\s*$/i, '')
+      .replace(/^\s*(?:in|of)\b/i, '')
+      .replace(/[?!]+|[.:]+(?!\d)/g, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+    return { detail: q.detail, color, productType };
+  });
+
+  const before = found.length > 0 ? text.slice(0, found[0].index) : '';
+  const prefix = before.replace(FILLER, ' ').replace(/[?!.,:;-]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+  for (let i = lines.length - 1; i >= 0; i--) {
+    if (lines[i].productType || !lines[i].color) continue;
+    const later = lines.slice(i + 1).find((line) => line.productType);
+    lines[i].productType = later?.productType ?? prefix;
+  }
+  return lines;
+}
+
+/**
+ * Per-colour quantities for one product ("200 red and 300 blue mugs"); empty unless
+ * the text has two or more quantities, each with a colour, all for the same product
+ */
+export function colorLines(lines: QuantityLine[]): ColorLine[] {
+  const products = new Set(lines.map((line) => line.productType.toLowerCase()));
+  if (lines.length < 2 || products.size !== 1 || lines.some((line) => !line.color)) {
+    return [];
+  }
+  return lines.map((line) => ({ color: line.color!, quantity: line.detail.min, quantityDetail: line.detail }));
+}
+
+/**
+ * Total pieces across colour lines; null if any line's pieces are unknown
+ */
+export function totalQuantity(lines: ColorLine[]): number | null {
+  return lines.some((line) => line.quantity === null)
+    ? null
+    : lines.reduce((sum, line) => sum + line.quantity!, 0);
+}
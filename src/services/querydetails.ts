@@ -0,0 +1,256 @@
+import { DecorationMethod, QueryDetails } from '../types/api.js';
+import { formatDate, todayInSingapore } from './calendar.js';
+
+export const DECORATION_METHODS: DecorationMethod[] = [
+  'print',
+  'screen_print',
+  'pad_print',
+  'digital_print',
+  'embroidery',
+  'engraving',
+  'debossing',
+  'embossing',
+  'heat_transfer',
+  'sublimation',
+];
+
+// Wording customers use for each method; more specific phrases first, plain "print" last
+const DECORATION_PATTERNS: Array<[RegExp, DecorationMethod]> = [
+  [/\bembroider(?:ed|y|ing)?\b/i, 'embroidery'],
+  [/\b(?:silk\s*)?screen[\s-]*print(?:ed|ing)?\b|\bsilkscreen(?:ed)?\b/i, 'screen_print'],
+  [/\bpad[\s-]*print(?:ed|ing)?\b/i, 'pad_print'],
+  [/\b(?:digital|uv|full[\s-]*colou?r)[\s-]*print(?:ed|ing)?\b/i, 'digital_print'],
+  [/\b(?:laser[\s-]*)?engrav(?:ed|ing|e)\b|\blaser[\s-]*etch(?:ed|ing)?\b/i, 'engraving'],
+  [/\bdeboss(?:ed|ing)?\b/i, 'debossing'],
+  [/\bemboss(?:ed|ing)?\b/i, 'embossing'],
+  [/\bheat[\s-]*(?:transfer|press)(?:ed)?\b|\bvinyl[\s-]*transfer\b/i, 'heat_transfer'],
+  [/\bsublimat(?:ion|ed)\b/i, 'sublimation'],
+  [/\bprint(?:ed|ing)?\b/i, 'print'],
+];
+
+const COUNT_WORDS: Record<string, number> = {
+  one: 1,
+  single: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+};
+
+// "2-colour print", "two colour logo", "print in 3 colours"
+const PRINT_COLORS_PATTERN =
+  /\b(\d{1,2}|one|single|two|three|four|five|six)[\s-]*colou?rs?[\s-]*(?:print(?:ed|ing)?|logo|imprint|artwork)\b|\bprint(?:ed)?\s+in\s+(\d{1,2}|one|two|three|four|five|six)\s+colou?rs?\b/i;
+
+// "with gift box", "in individual polybags", "individually wrapped"
+const PACKAGING_PATTERN =
+  /\b(?:with|in)\s+(?:an?\s+)?((?:individual|gift|paper|kraft|opp|poly|velvet|plastic|window|magnetic|drawstring)?\s*(?:box(?:es)?|bags?|pouch(?:es)?|polybags?|tins?|tubes?|sleeves?|packaging))\b|\b(gift[\s-]*boxed|individually\s+(?:packed|wrapped|bagged|boxed))\b/i;
+
+// Words that end a delivery area: deadlines, joins, and decoration, print colour or packaging
+const AREA_STOP_WORDS = String.raw`(?:by|before|on|with|and|for|in|asap|urgently?|embroider\w*|print\w*|screen\w*|silkscreen\w*|engrav\w*|laser|deboss\w*|emboss\w*|heat|sublimat\w*|logos?|one|single|two|three|four|five|six|colou?rs?|gift|individual(?:ly)?|box(?:es)?|bags?|polybags?|pouch(?:es)?|packed|wrapped)(?![a-z0-9'&-])`;
+const AREA_WORD = String.raw`(?!${AREA_STOP_WORDS})[a-z][a-z0-9'&-]*`;
+
+// "deliver to Jurong", "delivery to our Changi office", "ship to Tuas": up to four words
+const DELIVERY_PATTERN = new RegExp(
+  String.raw`\b(?:deliver(?:ed|y)?|ship(?:ped|ping)?|send|sent)\s+(?:it\s+|them\s+)?(?:to|at)\s+(${AREA_WORD}(?:\s+${AREA_WORD}){0,3})`,
+  'i'
+);
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const MONTH_NAME = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+const DAY = '(\\d{1,2})(?:st|nd|rd|th)?';
+const YEAR = '(?:,?\\s*(\\d{4}))?';
+
+const DATE_PATTERNS: Array<{ pattern: RegExp; toDate: (match: RegExpMatchArray, today: Date) => Date | null }> = [
+  // 2026-12-15
+  {
+    pattern: /^(\d{4})-(\d{1,2})-(\d{1,2})\b/,
+    toDate: (m) => calendarDate(Number(m[1]), Number(m[2]), Number(m[3])),
+  },
+  // 15 Dec, 15th of December 2026
+  {
+    pattern: new RegExp(`^${DAY}\\s+(?:of\\s+)?${MONTH_NAME}\\b${YEAR}`, 'i'),
+    toDate: (m, today) => withYear(today, monthNumber(m[2]), Number(m[1]), m[3]),
+  },
+  // Dec 15, December 15th, 2026
+  {
+    pattern: new RegExp(`^${MONTH_NAME}\\s+${DAY}\\b${YEAR}`, 'i'),
+    toDate: (m, today) => withYear(today, monthNumber(m[1]), Number(m[2]), m[3]),
+  },
+  // 15/12, 15/12/2026 (day first, as written in Singapore); not fractions ("1/2 inch", "1/2 of")
+  {
+    pattern: /^(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?\b(?![./]|\s*(?:"|inch|cm|mm|of\b))/,
+    toDate: (m, today) => withYear(today, Number(m[2]), Number(m[1]), m[3] && m[3].length === 2 ? `20${m[3]}` : m[3]),
+  },
+  // tomorrow
+  {
+    pattern: /^tomorrow\b/i,
+    toDate: (_m, today) => addDays(today, 1),
+  },
+  // Friday, next Friday
+  {
+    pattern: /^(?:this\s+|next\s+)?(sun|mon|tues?|wed(?:nes)?|thu(?:rs?)?|fri|sat(?:ur)?)(?:day)?\b/i,
+    toDate: (m, today) => nextWeekday(today, m[1]),
+  },
+  // end of the month
+  {
+    pattern: /^(?:the\s+)?end\s+of\s+(?:the\s+|this\s+)?month\b/i,
+    toDate: (_m, today) => new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() + 1, 0)),
+  },
+];
+
+// A date written with a month name or day: "15 Dec", "Dec 15", "Friday", "tomorrow"
+const WRITTEN_DATE = String.raw`(?:\d{1,2}(?:st|nd|rd|th)?\s+(?:of\s+)?${MONTH_NAME}\b|${MONTH_NAME}\s+\d|(?:this\s+|next\s+)?(?:sun|mon|tues?|wed(?:nes)?|thu(?:rs?)?|fri|sat(?:ur)?)(?:day)?\b|tomorrow\b)`;
+
+// Words that introduce a deadline: "need by", "before", "deadline:", "due", "for an event on";
+// "on" alone only before a written date, as "on 1/2" or "on 2 sides" aren't deadlines
+const DEADLINE_LEAD = new RegExp(
+  String.raw`\b(?:(?:(?:needed|need(?:\s+(?:it|them))?|ready|delivered|latest)\s+)?(?:by|before|no\s+later\s+than|deadline(?:\s+is)?:?|due(?:\s+(?:on|by))?)|(?:(?:needed|need(?:\s+(?:it|them))?|ready|delivered|latest)\s+)on|on(?=\s+(?:the\s+)?${WRITTEN_DATE}))\s+(?:the\s+)?`,
+  'gi'
+);
+
+// "must be waterproof", "requirements: logo on both sides"
+const REQUIREMENT_PATTERNS = [
+  /\brequirements?\s*:\s*([^.;!?]+)/gi,
+  /\b((?:must|should|has\s+to|have\s+to|needs?\s+to)\s+(?:be\s+(?!ready\b|delivered\b)|have\s+)[^,.;!?]+)/gi,
+  /\b(?:with\s+(?:an?\s+|the\s+)?)?(logo\s+on\s+(?:both\s+sides|front\s+and\s+back|the\s+(?:(?:left|right|top|bottom)\s+)?(?:front|back|side|sleeve|strap|lid|cap)s?)\b)/gi,
+];
+
+function calendarDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : null;
+}
+
+function monthNumber(name: string): number {
+  return MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result;
+}
+
+/**
+ * Date in the given year, or when no year is written, the next time that day comes round
+ */
+function withYear(today: Date, month: number, day: number, year: string | undefined): Date | null {
+  if (year) return calendarDate(Number(year), month, day);
+
+  const thisYear = calendarDate(today.getUTCFullYear(), month, day);
+  if (thisYear && thisYear >= today) return thisYear;
+  return calendarDate(today.getUTCFullYear() + 1, month, day);
+}
+
+function nextWeekday(today: Date, name: string): Date {
+  const target = WEEKDAYS.findIndex((day) => day.startsWith(name.toLowerCase().slice(0, 3)));
+  const ahead = (target - today.getUTCDay() + 7) % 7 || 7;
+  return addDays(today, ahead);
+}
+
+/**
+ * Read a date written the way customers do ("15 Dec", "Dec 15th", "15/12", "2026-12-15",
+ * "tomorrow", "next Friday"), relative to today in Singapore. Returns YYYY-MM-DD or null.
+ */
+export function parseDateText(text: string, today: Date = todayInSingapore()): string | null {
+  const value = text.trim();
+  for (const { pattern, toDate } of DATE_PATTERNS) {
+    const match = value.match(pattern);
+    if (match) {
+      const date = toDate(match, today);
+      return date ? formatDate(date) : null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Map how a customer describes a decoration ("embroidered", "silkscreen", "laser engraving")
+ * to a DecorationMethod, or null if none is mentioned
+ */
+export function findDecorationMethod(text: string): DecorationMethod | null {
+  const found = DECORATION_PATTERNS.find(([pattern]) => pattern.test(text));
+  return found ? found[1] : null;
+}
+
+function toCount(value: string): number {
+  return COUNT_WORDS[value.toLowerCase()] ?? parseInt(value, 10);
+}
+
+/**
+ * Pull order details out of a query with keyword rules. Also returns the query with the
+ * matched phrases removed, so they aren't mistaken for part of the product name.
+ */
+export function extractQueryDetails(
+  query: string,
+  today: Date = todayInSingapore()
+): { details: QueryDetails; remainder: string } {
+  let remainder = query;
+  // Remove a phrase along with the "and" or punctuation that joined it to the rest
+  const strip = (phrase: string) => {
+    const escaped = phrase.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    remainder = remainder.replace(new RegExp(`(?:\\s*(?:[,;&]|\\band\\b))?\\s*${escaped}\\s*[:,;]?`, 'i'), ' ');
+  };
+
+  let deadline: string | null = null;
+  for (const lead of query.matchAll(DEADLINE_LEAD)) {
+    const rest = query.slice(lead.index! + lead[0].length);
+    deadline = parseDateText(rest, today);
+    if (deadline) {
+      const date = DATE_PATTERNS.map(({ pattern }) => rest.match(pattern)).find((m) => m)!;
+      strip(lead[0] + date[0]);
+      break;
+    }
+  }
+
+  const delivery = query.match(DELIVERY_PATTERN);
+  const deliveryArea = delivery ? delivery[1].trim() : null;
+  if (delivery) strip(delivery[0]);
+
+  const printMatch = query.match(PRINT_COLORS_PATTERN);
+  const printColors = printMatch ? toCount(printMatch[1] ?? printMatch[2]) : null;
+  if (printMatch) strip(printMatch[0]);
+
+  const packagingMatch = query.match(PACKAGING_PATTERN);
+  const packaging = packagingMatch ? (packagingMatch[1] ?? packagingMatch[2]).replace(/\s+/g, ' ').trim().toLowerCase() : null;
+  if (packagingMatch) strip(packagingMatch[0]);
+
+  const requirements: string[] = [];
+  for (const pattern of REQUIREMENT_PATTERNS) {
+    for (const match of query.matchAll(pattern)) {
+      requirements.push(match[1].trim());
+      strip(match[0]);
+    }
+  }
+
+  // Checked after the print colour phrase, which often names the method too ("2-colour print")
+  const decorationMethod = findDecorationMethod(query);
+  const decorationPattern = DECORATION_PATTERNS.find(([, method]) => method === decorationMethod)?.[0];
+  const decorationMatch = decorationPattern && remainder.match(decorationPattern);
+  if (decorationMatch) {
+    strip(decorationMatch[0]);
+    const logo = remainder.match(/\b(?:with\s+)?(?:an?\s+|the\s+)?logos?\b/i);
+    if (logo) strip(logo[0]);
+  }
+
+  return {
+    details: { deadline, deliveryArea, decorationMethod, printColors, packaging, requirements },
+    remainder: remainder.replace(/\s+/g, ' ').trim(),
+  };
+}
+
+/**
+ * Details with nothing mentioned
+ */
+export function emptyQueryDetails(): QueryDetails {
+  return {
+    deadline: null,
+    deliveryArea: null,
+    decorationMethod: null,
+    printColors: null,
+    packaging: null,
+    requirements: [],
+  };
+}
@@ -0,0 +1,49 @@
+import { Product, Synonym } from '../types/product.js';
+import {
+  ProductSheetRow,
+  SynonymSheetRow,
+  SourcingRuleSheetRow,
+  ScraperRowData,
+  SheetData,
+  ProductRowUpdate,
+} from '../types/sheets.js';
+import { config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { SheetsService } from './sheets.js';
+import { FileStoreService } from './filestore.js';
+
+/**
+ * Storage backend for product and synonym data.
+ * Implementations read and write the Products (A-P) and Synonyms (A-C) layout,
+ * and read the optional Sourcing Rules tab.
+ */
+export interface ProductRepository {
+  getProducts(): Promise<Product[]>;
+  getSynonyms(): Promise<Synonym[]>;
+  getProductSheet(): Promise<SheetData<ProductSheetRow>>;
+  getSynonymSheet(): Promise<SheetData<SynonymSheetRow>>;
+  appendProducts(products: ScraperRowData[]): Promise<number>;
+  updateProductFields(rowNumber: number, fields: Partial<ProductSheetRow>): Promise<void>;
+  updateProducts(updates: ProductRowUpdate[]): Promise<number>;
+  getProductRow(rowNumber: number): Promise<ProductSheetRow | null>;
+  getExistingProductUrls(): Promise<Map<string, number>>;
+  appendSynonym(synonym: SynonymSheetRow): Promise<void>;
+  updateSynonym(rowNumber: number, synonym: SynonymSheetRow): Promise<void>;
+  deleteSynonym(rowNumber: number): Promise<void>;
+  getSourcingRuleSheet(): Promise<SheetData<SourcingRuleSheetRow>>;
+}
+
+/**
+ * Create the repository selected by PRODUCT_DATA_SOURCE
+ */
+function createProductRepository(): ProductRepository {
+  if (config.dataSource.type === 'file') {
+    logger.info('Using file-backed product data', { path: config.dataSource.path });
+    return new FileStoreService(config.dataSource.path);
+  }
+
+  logger.info('Using Google Sheets product data');
+  return new SheetsService();
+}
+
+export const productRepository = createProductRepository();
@@ -0,0 +1,125 @@
+import { ParsedQuery, MultiParsedQuery, ParsedQueryItem } from '../types/api.js';
+import { findColorInText, removeColorFromText } from './colors.js';
+import { colorLines, findQuantities, mainQuantity, quantityLines, totalQuantity } from './quantity.js';
+import { extractQueryDetails } from './querydetails.js';
+import { ParserProvider, ParserResult } from './parser.js';
+
+const URGENT_KEYWORDS = ['urgent', 'urgently', 'asap', 'rush', 'quickly', 'fast'];
+
+/**
+ * Fallback parsing using simple keyword extraction
+ */
+export function fallbackParse(query: string): ParsedQuery {
+  // Deadline, delivery and decoration phrases come out first so they don't end up in the product name
+  const { details, remainder } = extractQueryDetails(query);
+  const lowerQuery = remainder.toLowerCase();
+
+  // Extract quantity, or one quantity per colour ("200 red and 300 blue mugs")
+  // Quantities written as such ("100 pcs", "qty 100", "x 100") win over bare numbers
+  const main = mainQuantity(findQuantities(lowerQuery));
+  const lines = quantityLines(lowerQuery);
+  const perColor = colorLines(lines);
+  const quantityDetail = perColor.length > 0 ? null : main?.detail ?? null;
+  const quantity = perColor.length > 0 ? totalQuantity(perColor) : quantityDetail?.min ?? null;
+
+  // Check for urgency
+  const urgent = URGENT_KEYWORDS.some((kw) => lowerQuery.includes(kw));
+
+  // Extract color (whole words only, so "stand" doesn't yield "tan"); none when split by colour
+  const foundColor = perColor.length > 0 ? null : findColorInText(lowerQuery);
+
+  // Remove the quantity, colour and urgency keywords to get product type
+  // Other numbers stay, as they're likely part of the name
+  const withoutQuantity = main ? `${lowerQuery.slice(0, main.index)} ${lowerQuery.slice(main.end)}` : lowerQuery;
+  let productType = (foundColor ? removeColorFromText(withoutQuantity, foundColor) : withoutQuantity)
+    .replace(new RegExp(URGENT_KEYWORDS.join('|'), 'gi'), '')
+    .replace(/\b(do you have|need|looking for|want|can i get|any|qty|quantity)\b/gi, '')
+    .replace(/^\s*of\b/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  // Clean up common punctuation
+  productType = productType.replace(/[?!]+|[.,:]+(?!\d)/g, '').trim();
+  if (perColor.length > 0 && lines[0].productType) {
+    productType = lines[0].productType;
+  }
+
+  return {
+    productType: productType || query,
+    color: foundColor,
+    quantity,
+    quantityDetail,
+    colorLines: perColor,
+    urgent,
+    ...details,
+  };
+}
+
+/**
+ * Fallback parsing for multiple products using regex patterns
+ */
+export function fallbackParseMulti(query: string): MultiParsedQuery {
+  const items: ParsedQueryItem[] = [];
+  // Details apply to every item: the rules can't tell which product they were said about
+  const { details, remainder } = extractQueryDetails(query);
+  const lowerQuery = remainder.toLowerCase();
+
+  // Check for urgency
+  const globalUrgent = URGENT_KEYWORDS.some((kw) => lowerQuery.includes(kw));
+
+  // One item per quantity: "1,500 pcs t-shirts, 500 hoodies", "2 dozen caps and 10 cartons of 50 pens",
+  // "200 red and 300 blue mugs" (one item per colour)
+  for (const line of quantityLines(remainder)) {
+    const productType = line.productType
+      .replace(new RegExp(`\\b(?:${URGENT_KEYWORDS.join('|')})\\b`, 'gi'), '')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    // Skip if product type is too short or just whitespace
+    if (productType.length < 2) continue;
+
+    items.push({
+      productType,
+      color: line.color ? line.color.toLowerCase() : null,
+      quantity: line.detail.min,
+      quantityDetail: line.detail,
+      urgent: globalUrgent,
+      ...details,
+    });
+  }
+
+  // If no items found, fall back to single parse
+  if (items.length === 0) {
+    const { colorLines: perColor, ...singleParsed } = fallbackParse(query);
+    if (perColor.length > 0) {
+      items.push(
+        ...perColor.map((line) => ({
+          ...singleParsed,
+          color: line.color,
+          quantity: line.quantity,
+          quantityDetail: line.quantityDetail,
+        }))
+      );
+    } else {
+      items.push(singleParsed);
+    }
+  }
+
+  return { items, globalUrgent };
+}
+
+/**
+ * Offline parser using keyword and regex rules only: no network, deterministic.
+ * Also the fallback when another provider fails.
+ */
+export class RuleParserProvider implements ParserProvider {
+  readonly name = 'rules';
+
+  async parseQuery(query: string): Promise<ParserResult<ParsedQuery>> {
+    return { value: fallbackParse(query), repaired: false };
+  }
+
+  async parseMultiQuery(query: string): Promise<ParserResult<MultiParsedQuery>> {
+    return { value: fallbackParseMulti(query), repaired: false };
+  }
+}
@@ -0,0 +1,573 @@
+import { promises as fs } from 'fs';
+import {
+  Product,
+  RuleEvaluation,
+  SourcingFacts,
+  SourcingRecommendation,
+  SourcingRule,
+  SourcingRuleConditions,
+  SourcingSource,
+  SourcingTrace,
+} from '../types/product.js';
+import { SourcingRuleSheetRow } from '../types/sheets.js';
+import { productRepository } from './repository.js';
+import { FIRST_DATA_ROW } from './layout.js';
+import { config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { isFalsy, isPlainNumber, isTruthy, parseCommaSeparated } from '../utils/helpers.js';
+
+/**
+ * Built-in rules, equivalent to the original fixed local-vs-China if-chain.
+ * Used when SOURCING_RULES_SOURCE=default and as the shape to copy for custom rule sets.
+ */
+export const DEFAULT_SOURCING_RULES: SourcingRule[] = [
+  {
+    id: 'no-sourcing',
+    priority: 10,
+    enabled: true,
+    when: { hasLocal: false, hasChina: false },
+    recommend: 'unknown',
+    reason: 'No sourcing information available',
+    warning:
+      '⚠️ WARNING: Both local and China sourcing details are missing for "{product}". Please update the Google Sheet with supplier information.',
+  },
+  {
+    id: 'local-missing',
+    priority: 20,
+    enabled: true,
+    when: { hasLocal: false, hasChina: true },
+    recommend: 'china',
+    reason: 'Local supplier not available - sourcing from China',
+  },
+  {
+    id: 'china-missing',
+    priority: 30,
+    enabled: true,
+    when: { hasChina: false },
+    recommend: 'local',
+    reason: 'China sourcing not available for this product',
+  },
+  {
+    id: 'deadline-local',
+    priority: 35,
+    enabled: true,
+    when: { localMeetsDeadline: true, chinaMeetsDeadline: false },
+    recommend: 'local',
+    reason: 'Only the local supplier can deliver by {deadline}',
+  },
+  {
+    id: 'deadline-china',
+    priority: 36,
+    enabled: true,
+    when: { localMeetsDeadline: false, chinaMeetsDeadline: true },
+    recommend: 'china',
+    reason: 'Local lead time misses {deadline}; China can deliver in time',
+  },
+  {
+    id: 'urgent-local',
+    priority: 40,
+    enabled: true,
+    when: { urgent: true },
+    recommend: 'local',
+    reason: 'Urgent delivery requested - local supplier fastest',
+  },
+  {
+    id: 'below-china-moq',
+    priority: 50,
+    enabled: true,
+    when: { belowChinaMoq: true },
+    recommend: 'local',
+    reason: 'Quantity {quantity} below China MOQ ({chinaMoq})',
+  },
+  {
+    id: 'meets-china-moq',
+    priority: 60,
+    enabled: true,
+    when: { meetsChinaMoq: true },
+    recommend: 'china',
+    reason: 'Quantity {quantity} meets China MOQ ({chinaMoq}), better pricing',
+  },
+  {
+    id: 'default-local',
+    priority: 100,
+    enabled: true,
+    when: {},
+    recommend: 'local',
+    reason: 'Default to local supplier for standard orders',
+  },
+];
+
+const SOURCES: SourcingSource[] = ['local', 'china', 'unknown'];
+
+const BOOLEAN_CONDITIONS = [
+  'urgent',
+  'quantityKnown',
+  'hasLocal',
+  'hasChina',
+  'chinaAir',
+  'chinaSea',
+  'belowChinaMoq',
+  'meetsChinaMoq',
+  'belowLocalMoq',
+  'meetsLocalMoq',
+  'localMeetsDeadline',
+  'chinaMeetsDeadline',
+] as const;
+
+const NUMBER_CONDITIONS = ['minQuantity', 'maxQuantity'] as const;
+
+const PLACEHOLDERS = ['product', 'quantity', 'chinaMoq', 'localMoq', 'deadline'];
+
+// Deadline facts for one request, worked out from lead times before rules run
+export interface SourcingContext {
+  deadline: string | null;
+  localMeetsDeadline: boolean | null;
+  chinaMeetsDeadline: boolean | null;
+}
+
+const NO_DEADLINE: SourcingContext = { deadline: null, localMeetsDeadline: null, chinaMeetsDeadline: null };
+
+export interface SourcingRulesStatus {
+  source: 'default' | 'file' | 'sheet';
+  rules: SourcingRule[];
+  loadedAt: string | null;
+  lastError: string | null;
+  // Validation problems from the last failed load (the previous rules stay active)
+  lastErrors: string[];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkTemplate(text: string, field: string, problems: string[]): void {
+  for (const [, name] of text.matchAll(/\{(\w+)\}/g)) {
+    if (!PLACEHOLDERS.includes(name)) {
+      problems.push(`${field} uses unknown placeholder {${name}} (allowed: ${PLACEHOLDERS.map((p) => `{${p}}`).join(', ')})`);
+    }
+  }
+}
+
+/**
+ * Check raw rule definitions (parsed JSON or converted sheet rows) and build typed rules.
+ * Every problem is reported, labelled by rule, so a rule set can be fixed in one pass.
+ */
+export function validateSourcingRules(
+  input: unknown,
+  labels: string[] = []
+): { rules: SourcingRule[]; errors: string[] } {
+  const rawRules = isObject(input) && Array.isArray(input.rules) ? input.rules : input;
+  if (!Array.isArray(rawRules)) {
+    return { rules: [], errors: ['Sourcing rules must be an array or an object with a "rules" array'] };
+  }
+  if (rawRules.length === 0) {
+    return { rules: [], errors: ['Sourcing rules are empty'] };
+  }
+
+  const rules: SourcingRule[] = [];
+  const errors: string[] = [];
+  const seenIds = new Set<string>();
+
+  rawRules.forEach((raw: unknown, index) => {
+    const label = labels[index] ?? `rule #${index + 1}`;
+    const problems: string[] = [];
+
+    if (!isObject(raw)) {
+      errors.push(`${label}: must be an object`);
+      return;
+    }
+
+    const id = typeof raw.id === 'string' ? raw.id.trim() : '';
+    if (!id) {
+      problems.push('id is required');
+    } else if (seenIds.has(id)) {
+      problems.push(`duplicate id "${id}"`);
+    }
+    seenIds.add(id);
+
+    if (typeof raw.priority !== 'number' || !Number.isFinite(raw.priority)) {
+      problems.push('priority must be a number');
+    }
+    if (raw.enabled !== undefined && typeof raw.enabled !== 'boolean') {
+      problems.push('enabled must be true or false');
+    }
+    if (!SOURCES.includes(raw.recommend as SourcingSource)) {
+      problems.push(`recommend must be one of ${SOURCES.join(', ')}`);
+    }
+    if (typeof raw.reason !== 'string' || raw.reason.trim() === '') {
+      problems.push('reason is required');
+    } else {
+      checkTemplate(raw.reason, 'reason', problems);
+    }
+    if (raw.warning !== undefined) {
+      if (typeof raw.warning !== 'string') {
+        problems.push('warning must be text');
+      } else {
+        checkTemplate(raw.warning, 'warning', problems);
+      }
+    }
+
+    const when = raw.when ?? {};
+    if (!isObject(when)) {
+      problems.push('when must be an object');
+    } else {
+      const known = [...BOOLEAN_CONDITIONS, ...NUMBER_CONDITIONS, 'categories'] as string[];
+      for (const key of Object.keys(when)) {
+        if (!known.includes(key)) {
+          problems.push(`unknown condition "${key}"`);
+        }
+      }
+      for (const key of BOOLEAN_CONDITIONS) {
+        if (when[key] !== undefined && typeof when[key] !== 'boolean') {
+          problems.push(`${key} must be true or false`);
+        }
+      }
+      for (const key of NUMBER_CONDITIONS) {
+        const value = when[key];
+        if (value !== undefined && (typeof value !== 'number' || !Number.isInteger(value) || value < 0)) {
+          problems.push(`${key} must be a whole number of 0 or more`);
+        }
+      }
+      if (
+        typeof when.minQuantity === 'number' &&
+        typeof when.maxQuantity === 'number' &&
+        when.minQuantity > when.maxQuantity
+      ) {
+        problems.push('minQuantity is greater than maxQuantity');
+      }
+      if (when.belowChinaMoq === true && when.meetsChinaMoq === true) {
+        problems.push('belowChinaMoq and meetsChinaMoq can never both be true');
+      }
+      if (when.belowLocalMoq === true && when.meetsLocalMoq === true) {
+        problems.push('belowLocalMoq and meetsLocalMoq can never both be true');
+      }
+      if (
+        when.categories !== undefined &&
+        (!Array.isArray(when.categories) || when.categories.some((c) => typeof c !== 'string'))
+      ) {
+        problems.push('categories must be a list of category names');
+      }
+    }
+
+    if (problems.length > 0) {
+      errors.push(...problems.map((problem) => `${label}${id ? ` (${id})` : ''}: ${problem}`));
+      return;
+    }
+
+    rules.push({
+      id,
+      priority: raw.priority as number,
+      enabled: raw.enabled !== false,
+      when: when as SourcingRuleConditions,
+      recommend: raw.recommend as SourcingSource,
+      reason: raw.reason as string,
+      ...(raw.warning ? { warning: raw.warning as string } : {}),
+    });
+  });
+
+  return { rules: sortRules(rules), errors };
+}
+
+/**
+ * Ascending priority; ties keep their order in the file or sheet
+ */
+function sortRules(rules: SourcingRule[]): SourcingRule[] {
+  return rules
+    .map((rule, index) => ({ rule, index }))
+    .sort((a, b) => a.rule.priority - b.rule.priority || a.index - b.index)
+    .map(({ rule }) => rule);
+}
+
+/**
+ * Convert a Sourcing Rules sheet cell to a rule value: blank means "not set",
+ * and text that doesn't parse is passed through for validation to report.
+ */
+function sheetBoolean(value: string): boolean | string | undefined {
+  if (value.trim() === '') return undefined;
+  if (isTruthy(value)) return true;
+  if (isFalsy(value)) return false;
+  return value;
+}
+
+function sheetNumber(value: string): number | string | undefined {
+  if (value.trim() === '') return undefined;
+  return isPlainNumber(value) ? parseInt(value.replace(/,/g, ''), 10) : value;
+}
+
+function fromSheetRow(row: SourcingRuleSheetRow): Record<string, unknown> {
+  const when: Record<string, unknown> = {
+    urgent: sheetBoolean(row.urgent),
+    quantityKnown: sheetBoolean(row.quantityKnown),
+    minQuantity: sheetNumber(row.minQuantity),
+    maxQuantity: sheetNumber(row.maxQuantity),
+    hasLocal: sheetBoolean(row.hasLocal),
+    hasChina: sheetBoolean(row.hasChina),
+    chinaAir: sheetBoolean(row.chinaAir),
+    chinaSea: sheetBoolean(row.chinaSea),
+    belowChinaMoq: sheetBoolean(row.belowChinaMoq),
+    meetsChinaMoq: sheetBoolean(row.meetsChinaMoq),
+    belowLocalMoq: sheetBoolean(row.belowLocalMoq),
+    meetsLocalMoq: sheetBoolean(row.meetsLocalMoq),
+    localMeetsDeadline: sheetBoolean(row.localMeetsDeadline),
+    chinaMeetsDeadline: sheetBoolean(row.chinaMeetsDeadline),
+    categories: row.categories.trim() ? parseCommaSeparated(row.categories) : undefined,
+  };
+
+  return {
+    id: row.ruleId,
+    priority: row.priority.trim() === '' ? undefined : Number(row.priority),
+    enabled: row.enabled.trim() === '' ? true : sheetBoolean(row.enabled),
+    recommend: row.recommend.trim().toLowerCase(),
+    reason: row.reason,
+    warning: row.warning.trim() || undefined,
+    when: Object.fromEntries(Object.entries(when).filter(([, value]) => value !== undefined)),
+  };
+}
+
+/**
+ * Names of the rule's conditions that don't hold for these facts (empty when the rule applies)
+ */
+function failedConditions(when: SourcingRuleConditions, facts: SourcingFacts): string[] {
+  const { quantity, chinaMoq, localMoq } = facts;
+  const quantityKnown = quantity !== null && quantity > 0;
+  const moqCompared = quantityKnown && chinaMoq !== null && chinaMoq > 0;
+  const localMoqCompared = quantityKnown && localMoq !== null && localMoq > 0;
+
+  const actual: Record<(typeof BOOLEAN_CONDITIONS)[number], boolean | null> = {
+    urgent: facts.urgent,
+    quantityKnown,
+    hasLocal: facts.hasLocal,
+    hasChina: facts.hasChina,
+    chinaAir: facts.chinaAir,
+    chinaSea: facts.chinaSea,
+    belowChinaMoq: moqCompared && quantity! < chinaMoq!,
+    meetsChinaMoq: moqCompared && quantity! >= chinaMoq!,
+    belowLocalMoq: localMoqCompared && quantity! < localMoq!,
+    meetsLocalMoq: localMoqCompared && quantity! >= localMoq!,
+    localMeetsDeadline: facts.localMeetsDeadline,
+    chinaMeetsDeadline: facts.chinaMeetsDeadline,
+  };
+
+  const failed: string[] = BOOLEAN_CONDITIONS.filter(
+    (name) => when[name] !== undefined && when[name] !== actual[name]
+  );
+  if (when.minQuantity !== undefined && (!quantityKnown || quantity! < when.minQuantity)) failed.push('minQuantity');
+  if (when.maxQuantity !== undefined && (!quantityKnown || quantity! > when.maxQuantity)) failed.push('maxQuantity');
+  if (
+    when.categories !== undefined &&
+    !when.categories.some((c) => c.trim().toLowerCase() === facts.category.trim().toLowerCase())
+  ) {
+    failed.push('categories');
+  }
+  return failed;
+}
+
+function fillTemplate(text: string, product: Product, quantity: number | null, context: SourcingContext): string {
+  const values: Record<string, string> = {
+    deadline: context.deadline ?? 'n/a',
+    product: product.name,
+    quantity: quantity !== null ? String(quantity) : 'n/a',
+    chinaMoq: product.sourcing.china.moq !== null ? String(product.sourcing.china.moq) : 'n/a',
+    localMoq: product.sourcing.local.moq !== null ? String(product.sourcing.local.moq) : 'n/a',
+  };
+  return text.replace(/\{(\w+)\}/g, (match, name: string) => values[name] ?? match);
+}
+
+/**
+ * Warning when the quantity is below the recommended source's MOQ
+ */
+function moqWarning(source: SourcingSource, product: Product, quantity: number | null): string | null {
+  if (quantity === null || quantity <= 0) return null;
+
+  const { local, china } = product.sourcing;
+  if (source === 'local' && local.moq && quantity < local.moq) {
+    const supplier = local.supplier ? `${local.supplier}'s` : 'the local';
+    return `Quantity ${quantity} is below ${supplier} MOQ of ${local.moq}; confirm a small-order surcharge or order at least ${local.moq}.`;
+  }
+  if (source === 'china' && china.moq && quantity < china.moq) {
+    return `Quantity ${quantity} is below the China MOQ of ${china.moq}; the order must be raised to ${china.moq} to source from China.`;
+  }
+  return null;
+}
+
+class SourcingRuleService {
+  private rules: SourcingRule[] = sortRules(DEFAULT_SOURCING_RULES);
+  private loadedAt: Date | null = null;
+  private lastError: string | null = null;
+  private lastErrors: string[] = [];
+  private refreshInterval: NodeJS.Timeout | null = null;
+
+  /**
+   * Load the configured rules (failing startup if they are invalid) and, for
+   * file and sheet rules, reload them on the cache refresh interval
+   */
+  async initialize(): Promise<void> {
+    await this.reload();
+
+    if (config.sourcing.rulesSource !== 'default' && !this.refreshInterval) {
+      this.refreshInterval = setInterval(() => {
+        this.reload().catch((error) => {
+          logger.error('Sourcing rule reload failed, keeping previous rules', { error });
+        });
+      }, config.cache.refreshIntervalMs);
+    }
+  }
+
+  /**
+   * Read and validate rules from the configured source and swap them in.
+   * Invalid rules are rejected as a whole; the previous rules stay active.
+   */
+  async reload(): Promise<SourcingRulesStatus> {
+    const source = config.sourcing.rulesSource;
+    this.lastErrors = [];
+
+    try {
+      let input: unknown;
+      let labels: string[] = [];
+
+      if (source === 'file') {
+        const text = await fs.readFile(config.sourcing.rulesPath, 'utf-8');
+        input = JSON.parse(text);
+      } else if (source === 'sheet') {
+        const { rows } = await productRepository.getSourcingRuleSheet();
+        const filled = rows
+          .map((row, index) => ({ row, rowNumber: index + FIRST_DATA_ROW }))
+          .filter(({ row }) => Object.values(row).some((cell) => cell.trim() !== ''));
+        input = filled.map(({ row }) => fromSheetRow(row));
+        labels = filled.map(({ rowNumber }) => `row ${rowNumber}`);
+      } else {
+        input = DEFAULT_SOURCING_RULES;
+      }
+
+      const { rules, errors } = validateSourcingRules(input, labels);
+      if (errors.length > 0) {
+        this.lastErrors = errors;
+        logger.error('Sourcing rules failed validation', { source, errors });
+        throw new Error(`Invalid sourcing rules: ${errors.join('; ')}`);
+      }
+
+      if (!rules.some((rule) => rule.enabled && Object.keys(rule.when).length === 0)) {
+        logger.warn('No catch-all sourcing rule; unmatched products will get an "unknown" recommendation');
+      }
+
+      this.rules = rules;
+      this.loadedAt = new Date();
+      this.lastError = null;
+      this.lastErrors = [];
+      logger.info('Sourcing rules loaded', { source, rules: rules.length });
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      throw error;
+    }
+
+    return this.getStatus();
+  }
+
+  /**
+   * Stop periodic reloads
+   */
+  stop(): void {
+    if (this.refreshInterval) {
+      clearInterval(this.refreshInterval);
+      this.refreshInterval = null;
+    }
+  }
+
+  getStatus(): SourcingRulesStatus {
+    return {
+      source: config.sourcing.rulesSource,
+      rules: this.rules,
+      loadedAt: this.loadedAt?.toISOString() ?? null,
+      lastError: this.lastError,
+      lastErrors: this.lastErrors,
+    };
+  }
+
+  /**
+   * Recommend a source for one product: the first enabled rule (by priority) whose
+   * conditions hold wins. Rules recommending a source the product lacks are skipped.
+   */
+  evaluate(
+    product: Product,
+    quantity: number | null,
+    urgent: boolean,
+    context: SourcingContext = NO_DEADLINE
+  ): SourcingRecommendation {
+    return this.explain(product, quantity, urgent, context).recommendation;
+  }
+
+  /**
+   * Same as evaluate, also returning the facts used and every rule tried up to the decision
+   */
+  explain(
+    product: Product,
+    quantity: number | null,
+    urgent: boolean,
+    context: SourcingContext = NO_DEADLINE
+  ): { recommendation: SourcingRecommendation; trace: SourcingTrace } {
+    const { local, china } = product.sourcing;
+    const facts: SourcingFacts = {
+      urgent,
+      quantity,
+      hasLocal: !!local.supplier && local.supplier.trim() !== '',
+      hasChina: china.available,
+      chinaAir: china.air,
+      chinaSea: china.sea,
+      chinaMoq: china.moq,
+      localMoq: local.moq,
+      category: product.category,
+      localMeetsDeadline: context.localMeetsDeadline,
+      chinaMeetsDeadline: context.chinaMeetsDeadline,
+    };
+
+    const evaluations: RuleEvaluation[] = [];
+    const trace: SourcingTrace = { inputs: facts, deadline: context.deadline, rules: evaluations };
+    const tried = (rule: SourcingRule, outcome: RuleEvaluation['outcome'], failed: string[] = []) =>
+      evaluations.push({ rule: rule.id, priority: rule.priority, outcome, failedConditions: failed });
+
+    for (const rule of this.rules) {
+      if (!rule.enabled) {
+        tried(rule, 'disabled');
+        continue;
+      }
+      const failed = failedConditions(rule.when, facts);
+      if (failed.length > 0) {
+        tried(rule, 'conditions_failed', failed);
+        continue;
+      }
+      if ((rule.recommend === 'local' && !facts.hasLocal) || (rule.recommend === 'china' && !facts.hasChina)) {
+        tried(rule, 'source_missing');
+        continue;
+      }
+      tried(rule, 'matched');
+
+      const recommendation: SourcingRecommendation = {
+        source: rule.recommend,
+        reason: fillTemplate(rule.reason, product, quantity, context),
+        rule: rule.id,
+      };
+      if (rule.recommend === 'local') {
+        recommendation.supplier = local.supplier || undefined;
+        recommendation.moq = local.moq || undefined;
+        recommendation.leadTime = local.leadTime || undefined;
+      } else if (rule.recommend === 'china') {
+        recommendation.moq = china.moq || undefined;
+      }
+      const warnings = [
+        rule.warning ? fillTemplate(rule.warning, product, quantity, context) : null,
+        moqWarning(rule.recommend, product, quantity),
+      ].filter((w): w is string => w !== null);
+      if (warnings.length > 0) {
+        recommendation.warning = warnings.join(' ');
+      }
+      return { recommendation, trace };
+    }
+
+    return {
+      recommendation: { source: 'unknown', reason: 'No sourcing rule matched this request', rule: 'none' },
+      trace,
+    };
+  }
+}
+
+export const sourcingRuleService = new SourcingRuleService();
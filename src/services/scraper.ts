@@ -1,9 +1,17 @@
 import FirecrawlApp from '@mendable/firecrawl-js';
+import { createHash } from 'crypto';
 import { config } from '../utils/config.js';
 import { logger } from '../utils/logger.js';
 import { ScrapedProduct } from '../types/product.js';
-import { ScraperRowData } from '../types/sheets.js';
-import { sheetsService } from './sheets.js';
+import { ProductSheetRow, ScraperRowData } from '../types/sheets.js';
+import { ScraperRowChange, ScraperFieldChange } from '../types/api.js';
+import { parseCommaSeparated } from '../utils/helpers.js';
+import { FIRST_DATA_ROW } from './layout.js';
+import { productRepository } from './repository.js';
+
+// Prefix of the marker written to the Notes column when a product disappears from the site
+const REMOVED_MARKER = 'Removed from website';
+const REMOVED_MARKER_PATTERN = /\[Removed from website[^\]]*\]\s*/g;
 
 interface FirecrawlExtractedData {
   name?: string;
@@ -30,6 +38,12 @@ interface CrawlPageData {
 interface CrawlResult {
   success: boolean;
   data?: CrawlPageData[];
+  // Every product URL found on listing pages, whether or not its page scraped
+  discoveredUrls?: string[];
+  // True when the crawl stopped at the page limit and may have missed products
+  truncated?: boolean;
+  // True when a listing page failed to scrape, so its products may be missing
+  partial?: boolean;
 }
 
 interface CrawlStatusResult {
@@ -66,7 +80,10 @@ class ScraperService {
     newProducts: number;
     updatedProducts: number;
     unchanged: number;
+    removedProducts: number;
+    restoredProducts: number;
     errors: number;
+    changes: ScraperRowChange[];
   }> {
     const { mode = 'incremental', dryRun = false, categoryUrl, categoryName, limit = 100 } = options;
     const startTime = Date.now();
@@ -103,34 +120,62 @@ class ScraperService {
           newProducts: scrapedProducts.length,
           updatedProducts: 0,
           unchanged: 0,
+          removedProducts: 0,
+          restoredProducts: 0,
           errors: 0,
+          changes: [],
         };
       }
 
       // Get existing products for comparison
-      const existingUrls = await sheetsService.getExistingProductUrls();
+      const { rows: existingRows } = await productRepository.getProductSheet();
+      const existing = new Map<string, { rowNumber: number; row: ProductSheetRow }>();
+      existingRows.forEach((row, index) => {
+        if (row.websiteUrl) {
+          existing.set(row.websiteUrl, { rowNumber: index + FIRST_DATA_ROW, row });
+        }
+      });
 
       // Categorize products
       const newProducts: ScraperRowData[] = [];
       const updatedProducts: Array<{ rowNumber: number; data: Partial<ScraperRowData> }> = [];
+      const changes: ScraperRowChange[] = [];
+      const noteUpdates: Array<{ rowNumber: number; notes: string }> = [];
       let unchanged = 0;
+      let restoredProducts = 0;
 
       for (const product of scrapedProducts) {
-        const existingRow = existingUrls.get(product.url);
+        const existingProduct = existing.get(product.url);
+        const existingRow = existingProduct?.rowNumber;
+
+        // Product is back on the site - clear its removed flag
+        if (existingProduct && this.isFlaggedRemoved(existingProduct.row.notes)) {
+          noteUpdates.push({
+            rowNumber: existingProduct.rowNumber,
+            notes: this.clearRemovedFlag(existingProduct.row.notes),
+          });
+          restoredProducts++;
+        }
 
-        if (!existingRow) {
+        if (!existingProduct || !existingRow) {
           // New product
           newProducts.push(this.toScraperRowData(product));
         } else if (mode === 'full') {
-          // Update existing product (only in full mode)
-          updatedProducts.push({
-            rowNumber: existingRow,
-            data: {
-              productName: product.name,
-              category: product.category,
-              colorsOnWebsite: product.colors.join(', '),
-            },
-          });
+          // Update existing product (only in full mode, and only when its content changed)
+          const scraped = this.toScraperRowData(product);
+          if (this.contentHash(scraped) === this.contentHash(existingProduct.row)) {
+            unchanged++;
+            continue;
+          }
+
+          const fieldChanges = this.diffScraperFields(existingProduct.row, scraped);
+          const data: Partial<ScraperRowData> = {};
+          for (const change of fieldChanges) {
+            data[change.field] = change.after;
+          }
+
+          updatedProducts.push({ rowNumber: existingRow, data });
+          changes.push({ url: product.url, rowNumber: existingRow, fields: fieldChanges });
         } else {
           unchanged++;
         }
@@ -138,14 +183,40 @@ class ScraperService {
 
       // Write new products
       if (newProducts.length > 0) {
-        await sheetsService.appendProducts(newProducts);
+        await productRepository.appendProducts(newProducts);
       }
 
-      // Update existing products (in full mode)
-      for (const update of updatedProducts) {
-        await sheetsService.updateProduct(update.rowNumber, update.data);
+      // Flag products that are no longer on the site. Only a complete, unscoped
+      // full crawl can tell a removed product from one that simply wasn't visited.
+      let removedProducts = 0;
+      if (mode === 'full' && !categoryUrl && !crawlResult.truncated && !crawlResult.partial) {
+        const foundUrls = new Set(
+          (crawlResult.discoveredUrls || []).map((url) => this.extractPath(url))
+        );
+        for (const product of scrapedProducts) {
+          foundUrls.add(product.url);
+        }
+
+        const removedOn = new Date().toISOString().slice(0, 10);
+        for (const [url, { rowNumber, row }] of existing) {
+          if (foundUrls.has(url) || this.isFlaggedRemoved(row.notes)) continue;
+          noteUpdates.push({ rowNumber, notes: this.addRemovedFlag(row.notes, removedOn) });
+          removedProducts++;
+        }
+      } else if (mode === 'full') {
+        logger.info('Skipping removed-product check (crawl was scoped, truncated or partial)', {
+          categoryUrl,
+          truncated: crawlResult.truncated,
+          partial: crawlResult.partial,
+        });
       }
 
+      // Write changed scraper columns and removed/restored Notes flags in batched requests
+      await productRepository.updateProducts([
+        ...updatedProducts.map((update) => ({ rowNumber: update.rowNumber, fields: update.data })),
+        ...noteUpdates.map((update) => ({ rowNumber: update.rowNumber, fields: { notes: update.notes } })),
+      ]);
+
       const duration = Date.now() - startTime;
       logger.info('Scraper completed', {
         duration,
@@ -153,6 +224,8 @@ class ScraperService {
         newProducts: newProducts.length,
         updatedProducts: updatedProducts.length,
         unchanged,
+        removedProducts,
+        restoredProducts,
       });
 
       return {
@@ -160,7 +233,10 @@ class ScraperService {
         newProducts: newProducts.length,
         updatedProducts: updatedProducts.length,
         unchanged,
+        removedProducts,
+        restoredProducts,
         errors: 0,
+        changes,
       };
     } catch (error) {
       logger.error('Scraper failed', { error });
@@ -202,6 +278,8 @@ class ScraperService {
 
       // Collect all product URLs using a Set to avoid duplicates
       const allProductUrls = new Set<string>();
+      // Listing pages that failed, whose products we never saw
+      let failedListings = 0;
 
       // Extract subcategory URLs (the "View All" links)
       const subcategoryUrls = this.extractSubcategoryUrls(categoryData.links || [], targetUrl);
@@ -230,8 +308,12 @@ class ScraperService {
                 productsFound: subProductUrls.length,
                 totalSoFar: allProductUrls.size
               });
+            } else {
+              failedListings++;
+              logger.warn('Subcategory scrape was not successful', { url: subUrl });
             }
           } catch (error) {
+            failedListings++;
             logger.warn('Failed to scrape subcategory', { url: subUrl, error });
           }
         }
@@ -281,6 +363,9 @@ class ScraperService {
       return {
         success: true,
         data: productPages,
+        discoveredUrls: productUrls,
+        truncated: allProductUrls.size >= limit,
+        partial: failedListings > 0,
       };
     } catch (error) {
       logger.error('Firecrawl scrape failed', { error });
@@ -632,6 +717,72 @@ class ScraperService {
     }
   }
 
+  /**
+   * Hash the scraper-owned content of a row (name, category, colours).
+   * Matches diffScraperFields: surrounding whitespace is ignored, as are case and order in the
+   * colour list; a name or category that only changes case still counts as a change.
+   */
+  private contentHash(row: Pick<ScraperRowData, 'productName' | 'category' | 'colorsOnWebsite'>): string {
+    const content = [
+      row.productName.trim(),
+      row.category.trim(),
+      this.normalizeColors(row.colorsOnWebsite),
+    ];
+    return createHash('sha1').update(JSON.stringify(content)).digest('hex');
+  }
+
+  /**
+   * List the scraper-owned fields that differ between the sheet and the scraped data
+   */
+  private diffScraperFields(existing: ProductSheetRow, scraped: ScraperRowData): ScraperFieldChange[] {
+    const fieldChanges: ScraperFieldChange[] = [];
+
+    if (existing.productName.trim() !== scraped.productName.trim()) {
+      fieldChanges.push({ field: 'productName', before: existing.productName, after: scraped.productName });
+    }
+    if (existing.category.trim() !== scraped.category.trim()) {
+      fieldChanges.push({ field: 'category', before: existing.category, after: scraped.category });
+    }
+    if (this.normalizeColors(existing.colorsOnWebsite) !== this.normalizeColors(scraped.colorsOnWebsite)) {
+      fieldChanges.push({
+        field: 'colorsOnWebsite',
+        before: existing.colorsOnWebsite,
+        after: scraped.colorsOnWebsite,
+      });
+    }
+
+    return fieldChanges;
+  }
+
+  private normalizeColors(colors: string): string {
+    return parseCommaSeparated(colors)
+      .map((c) => c.toLowerCase())
+      .sort()
+      .join(',');
+  }
+
+  /**
+   * Check whether a Notes value carries the removed-from-website flag
+   */
+  private isFlaggedRemoved(notes: string): boolean {
+    return notes.includes(`[${REMOVED_MARKER}`);
+  }
+
+  /**
+   * Prepend the removed flag to Notes, keeping whatever the VA wrote
+   */
+  private addRemovedFlag(notes: string, date: string): string {
+    const flag = `[${REMOVED_MARKER} ${date}]`;
+    return notes.trim() ? `${flag} ${notes.trim()}` : flag;
+  }
+
+  /**
+   * Strip the removed flag from Notes, keeping whatever the VA wrote
+   */
+  private clearRemovedFlag(notes: string): string {
+    return notes.replace(REMOVED_MARKER_PATTERN, '').trim();
+  }
+
   /**
    * Convert ScrapedProduct to ScraperRowData for sheets
    */
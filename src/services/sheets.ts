@@ -1,17 +1,65 @@
 import { google } from 'googleapis';
 import { config } from '../utils/config.js';
 import { logger } from '../utils/logger.js';
-import { ProductSheetRow, SynonymSheetRow, ScraperRowData } from '../types/sheets.js';
+import { withRetry } from '../utils/retry.js';
+import {
+  ProductSheetRow,
+  SynonymSheetRow,
+  SourcingRuleSheetRow,
+  ScraperRowData,
+  SheetLayout,
+  SheetData,
+  ProductRowUpdate,
+} from '../types/sheets.js';
 import { Product, Synonym } from '../types/product.js';
-import { parseCommaSeparated, isTruthy, parseNumber } from '../utils/helpers.js';
+import { ProductRepository } from './repository.js';
+import {
+  TABS,
+  FIRST_DATA_ROW,
+  PRODUCT_HEADERS,
+  SYNONYM_HEADERS,
+  SOURCING_RULE_HEADERS,
+  buildLayout,
+  columnLetter,
+  readProductRow,
+  readSynonymRow,
+  readSourcingRuleRow,
+  toProduct,
+  toSynonym,
+  toScraperValues,
+  toSynonymValues,
+} from './layout.js';
+
+// Network errors worth retrying alongside 429/5xx responses
+const TRANSIENT_ERROR_CODES = ['ECONNRESET', 'ETIMEDOUT', 'EAI_AGAIN', 'ECONNREFUSED'];
+
+/**
+ * Check whether a googleapis error is a rate limit, server error or dropped connection
+ */
+function isRetryableSheetsError(error: unknown): boolean {
+  const err = error as { code?: number | string; response?: { status?: number } };
+  const status = err.response?.status ?? (typeof err.code === 'number' ? err.code : undefined);
+
+  if (status !== undefined) {
+    return status === 429 || (status >= 500 && status < 600);
+  }
+
+  return typeof err.code === 'string' && TRANSIENT_ERROR_CODES.includes(err.code);
+}
+
+// Calls that are safe to repeat. A write that timed out or got a 5xx may still have
+// reached Sheets, so appends and row deletes (which would remove the next row) aren't retried.
+const IDEMPOTENT_CALLS = ['get', 'values.get', 'values.update', 'values.batchUpdate'];
 
 const SHEET_RANGES = {
-  products: 'Products!A2:P',
-  synonyms: 'Synonyms!A2:C',
-  productsWrite: 'Products!A:E',
+  products: TABS.products,
+  synonyms: TABS.synonyms,
+  productsHeader: `${TABS.products}!1:1`,
+  synonymsHeader: `${TABS.synonyms}!1:1`,
+  sourcingRules: `'${TABS.sourcingRules}'`,
 };
 
-class SheetsService {
+export class SheetsService implements ProductRepository {
   private sheets;
   private spreadsheetId: string;
 
@@ -30,16 +78,35 @@ class SheetsService {
    * Fetch all products from the Products sheet
    */
   async getProducts(): Promise<Product[]> {
+    const { rows } = await this.getProductSheet();
+    return rows.map((row) => toProduct(row));
+  }
+
+  /**
+   * Fetch all synonyms from the Synonyms sheet
+   */
+  async getSynonyms(): Promise<Synonym[]> {
+    const { rows } = await this.getSynonymSheet();
+    return rows.map((row) => toSynonym(row));
+  }
+
+  /**
+   * Fetch the raw Products rows with their column layout
+   */
+  async getProductSheet(): Promise<SheetData<ProductSheetRow>> {
     try {
-      const response = await this.sheets.spreadsheets.values.get({
-        spreadsheetId: this.spreadsheetId,
-        range: SHEET_RANGES.products,
-      });
+      const response = await this.request('values.get', () =>
+        this.sheets.spreadsheets.values.get({
+          spreadsheetId: this.spreadsheetId,
+          range: SHEET_RANGES.products,
+        })
+      );
 
-      const rows = response.data.values || [];
+      const [header = [], ...rows] = response.data.values || [];
+      const layout = buildLayout<ProductSheetRow>(TABS.products, header, PRODUCT_HEADERS);
       logger.info('Fetched products from sheet', { count: rows.length });
 
-      return rows.map((row) => this.parseProductRow(row));
+      return { layout, rows: rows.map((row) => readProductRow(row, layout)) };
     } catch (error) {
       logger.error('Failed to fetch products from sheet', { error });
       throw error;
@@ -47,44 +114,67 @@ class SheetsService {
   }
 
   /**
-   * Fetch all synonyms from the Synonyms sheet
+   * Fetch the raw Synonyms rows with their column layout
    */
-  async getSynonyms(): Promise<Synonym[]> {
+  async getSynonymSheet(): Promise<SheetData<SynonymSheetRow>> {
     try {
-      const response = await this.sheets.spreadsheets.values.get({
-        spreadsheetId: this.spreadsheetId,
-        range: SHEET_RANGES.synonyms,
-      });
+      const response = await this.request('values.get', () =>
+        this.sheets.spreadsheets.values.get({
+          spreadsheetId: this.spreadsheetId,
+          range: SHEET_RANGES.synonyms,
+        })
+      );
 
-      const rows = response.data.values || [];
+      const [header = [], ...rows] = response.data.values || [];
+      const layout = buildLayout<SynonymSheetRow>(TABS.synonyms, header, SYNONYM_HEADERS);
       logger.info('Fetched synonyms from sheet', { count: rows.length });
 
-      return rows.map((row) => this.parseSynonymRow(row));
+      return { layout, rows: rows.map((row) => readSynonymRow(row, layout)) };
     } catch (error) {
       logger.error('Failed to fetch synonyms from sheet', { error });
       throw error;
     }
   }
 
+  /**
+   * Fetch the Sourcing Rules rows with their column layout
+   */
+  async getSourcingRuleSheet(): Promise<SheetData<SourcingRuleSheetRow>> {
+    try {
+      const response = await this.request('values.get', () =>
+        this.sheets.spreadsheets.values.get({
+          spreadsheetId: this.spreadsheetId,
+          range: SHEET_RANGES.sourcingRules,
+        })
+      );
+
+      const [header = [], ...rows] = response.data.values || [];
+      const layout = buildLayout<SourcingRuleSheetRow>(TABS.sourcingRules, header, SOURCING_RULE_HEADERS);
+      logger.info('Fetched sourcing rules from sheet', { count: rows.length });
+
+      return { layout, rows: rows.map((row) => readSourcingRuleRow(row, layout)) };
+    } catch (error) {
+      logger.error('Failed to fetch sourcing rules from sheet', { error });
+      throw error;
+    }
+  }
+
   /**
    * Append new products (scraper data - columns A-E only)
    */
   async appendProducts(products: ScraperRowData[]): Promise<number> {
     try {
-      const values = products.map((p) => [
-        p.productName,
-        p.category,
-        p.websiteUrl,
-        p.otherNames,
-        p.colorsOnWebsite,
-      ]);
-
-      const response = await this.sheets.spreadsheets.values.append({
-        spreadsheetId: this.spreadsheetId,
-        range: SHEET_RANGES.productsWrite,
-        valueInputOption: 'USER_ENTERED',
-        requestBody: { values },
-      });
+      const layout = await this.getProductLayout();
+      const values = products.map((p) => toScraperValues(p, layout));
+
+      const response = await this.request('values.append', () =>
+        this.sheets.spreadsheets.values.append({
+          spreadsheetId: this.spreadsheetId,
+          range: `${TABS.products}!A:${columnLetter(layout.width - 1)}`,
+          valueInputOption: 'USER_ENTERED',
+          requestBody: { values },
+        })
+      );
 
       const updatedRows = response.data.updates?.updatedRows || 0;
       logger.info('Appended products to sheet', { count: updatedRows });
@@ -96,45 +186,80 @@ class SheetsService {
   }
 
   /**
-   * Update an existing product row (columns A, B, E only - preserve manual data)
+   * Write individual cells of an existing product row, located by header name.
+   * Fields left undefined are not touched.
    */
-  async updateProduct(rowNumber: number, data: Partial<ScraperRowData>): Promise<void> {
+  async updateProductFields(rowNumber: number, fields: Partial<ProductSheetRow>): Promise<void> {
+    await this.updateProducts([{ rowNumber, fields }]);
+  }
+
+  /**
+   * Write cell updates for many product rows using as few batchUpdate requests as possible.
+   * Ranges are chunked (SHEETS_WRITE_BATCH_SIZE per request) to stay under Sheets write limits.
+   */
+  async updateProducts(updates: ProductRowUpdate[]): Promise<number> {
+    if (updates.length === 0) return 0;
+
     try {
-      // Update columns A (name), B (category), E (colors) only
-      const updates: Array<{ range: string; values: string[][] }> = [];
-
-      if (data.productName !== undefined) {
-        updates.push({
-          range: `Products!A${rowNumber}`,
-          values: [[data.productName]],
-        });
+      const invalid = updates.find((u) => u.rowNumber < FIRST_DATA_ROW);
+      if (invalid) {
+        throw new Error(`Product row ${invalid.rowNumber} does not exist`);
       }
 
-      if (data.category !== undefined) {
-        updates.push({
-          range: `Products!B${rowNumber}`,
-          values: [[data.category]],
-        });
+      const layout = await this.getProductLayout();
+      const data: Array<{ range: string; values: string[][] }> = [];
+
+      for (const { rowNumber, fields } of updates) {
+        for (const [field, value] of Object.entries(fields) as Array<[keyof ProductSheetRow, string | undefined]>) {
+          if (value === undefined) continue;
+          data.push({
+            range: `${TABS.products}!${columnLetter(layout.columns[field])}${rowNumber}`,
+            values: [[value]],
+          });
+        }
       }
 
-      if (data.colorsOnWebsite !== undefined) {
-        updates.push({
-          range: `Products!E${rowNumber}`,
-          values: [[data.colorsOnWebsite]],
-        });
+      const batchSize = Math.max(1, config.google.writeBatchSize);
+      let requests = 0;
+
+      for (let i = 0; i < data.length; i += batchSize) {
+        await this.request('values.batchUpdate', () =>
+          this.sheets.spreadsheets.values.batchUpdate({
+            spreadsheetId: this.spreadsheetId,
+            requestBody: {
+              valueInputOption: 'USER_ENTERED',
+              data: data.slice(i, i + batchSize),
+            },
+          })
+        );
+        requests++;
       }
 
-      await this.sheets.spreadsheets.values.batchUpdate({
-        spreadsheetId: this.spreadsheetId,
-        requestBody: {
-          valueInputOption: 'USER_ENTERED',
-          data: updates,
-        },
-      });
+      logger.info('Updated product rows', { rows: updates.length, cells: data.length, requests });
+      return updates.length;
+    } catch (error) {
+      logger.error('Failed to update product rows', { rows: updates.length, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch a single product row by row number, or null if it is empty
+   */
+  async getProductRow(rowNumber: number): Promise<ProductSheetRow | null> {
+    try {
+      const layout = await this.getProductLayout();
+      const response = await this.request('values.get', () =>
+        this.sheets.spreadsheets.values.get({
+          spreadsheetId: this.spreadsheetId,
+          range: `${TABS.products}!${rowNumber}:${rowNumber}`,
+        })
+      );
 
-      logger.info('Updated product row', { rowNumber });
+      const row = response.data.values?.[0];
+      return row ? readProductRow(row, layout) : null;
     } catch (error) {
-      logger.error('Failed to update product row', { rowNumber, error });
+      logger.error('Failed to fetch product row', { rowNumber, error });
       throw error;
     }
   }
@@ -144,17 +269,22 @@ class SheetsService {
    */
   async getExistingProductUrls(): Promise<Map<string, number>> {
     try {
-      const response = await this.sheets.spreadsheets.values.get({
-        spreadsheetId: this.spreadsheetId,
-        range: 'Products!C2:C',
-      });
+      const layout = await this.getProductLayout();
+      const urlColumn = columnLetter(layout.columns.websiteUrl);
+
+      const response = await this.request('values.get', () =>
+        this.sheets.spreadsheets.values.get({
+          spreadsheetId: this.spreadsheetId,
+          range: `${TABS.products}!${urlColumn}${FIRST_DATA_ROW}:${urlColumn}`,
+        })
+      );
 
       const rows = response.data.values || [];
       const urlMap = new Map<string, number>();
 
       rows.forEach((row, index) => {
         if (row[0]) {
-          urlMap.set(row[0], index + 2); // +2 because row 1 is header, array is 0-indexed
+          urlMap.set(row[0], index + FIRST_DATA_ROW);
         }
       });
 
@@ -166,40 +296,150 @@ class SheetsService {
     }
   }
 
-  private parseProductRow(row: string[]): Product {
-    return {
-      name: row[0] || '',
-      category: row[1] || '',
-      url: row[2] || '',
-      otherNames: row[3] || '',
-      websiteColors: parseCommaSeparated(row[4] || ''),
-      sourcing: {
-        local: {
-          supplier: row[5] || '',
-          moq: parseNumber(row[6] || ''),
-          leadTime: row[7] || '',
-          colors: parseCommaSeparated(row[8] || ''),
-        },
-        china: {
-          available: isTruthy(row[9] || ''),
-          moq: parseNumber(row[10] || ''),
-          air: isTruthy(row[11] || ''),
-          sea: isTruthy(row[12] || ''),
-          colors: row[13] || '',
-        },
-      },
-      notes: row[14] || '',
-      lastUpdated: row[15] || '',
-    };
-  }
-
-  private parseSynonymRow(row: string[]): Synonym {
-    return {
-      customerSays: row[0] || '',
-      weCallIt: row[1] || '',
-      notes: row[2] || '',
-    };
+  /**
+   * Append a synonym row to the Synonyms sheet
+   */
+  async appendSynonym(synonym: SynonymSheetRow): Promise<void> {
+    try {
+      const layout = await this.getSynonymLayout();
+
+      await this.request('values.append', () =>
+        this.sheets.spreadsheets.values.append({
+          spreadsheetId: this.spreadsheetId,
+          range: `${TABS.synonyms}!A:${columnLetter(layout.width - 1)}`,
+          valueInputOption: 'USER_ENTERED',
+          requestBody: { values: [toSynonymValues(synonym, layout)] },
+        })
+      );
+
+      logger.info('Appended synonym to sheet', { customerSays: synonym.customerSays });
+    } catch (error) {
+      logger.error('Failed to append synonym to sheet', { error });
+      throw error;
+    }
   }
-}
 
-export const sheetsService = new SheetsService();
+  /**
+   * Overwrite an existing synonym row
+   */
+  async updateSynonym(rowNumber: number, synonym: SynonymSheetRow): Promise<void> {
+    try {
+      const layout = await this.getSynonymLayout();
+      const data = (Object.keys(layout.columns) as Array<keyof SynonymSheetRow>).map((field) => ({
+        range: `${TABS.synonyms}!${columnLetter(layout.columns[field])}${rowNumber}`,
+        values: [[synonym[field]]],
+      }));
+
+      await this.request('values.batchUpdate', () =>
+        this.sheets.spreadsheets.values.batchUpdate({
+          spreadsheetId: this.spreadsheetId,
+          requestBody: {
+            valueInputOption: 'USER_ENTERED',
+            data,
+          },
+        })
+      );
+
+      logger.info('Updated synonym row', { rowNumber });
+    } catch (error) {
+      logger.error('Failed to update synonym row', { rowNumber, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a synonym row, shifting the rows below it up
+   */
+  async deleteSynonym(rowNumber: number): Promise<void> {
+    try {
+      const sheetId = await this.getTabId(TABS.synonyms);
+
+      await this.request('batchUpdate', () =>
+        this.sheets.spreadsheets.batchUpdate({
+          spreadsheetId: this.spreadsheetId,
+          requestBody: {
+            requests: [
+              {
+                deleteDimension: {
+                  range: {
+                    sheetId,
+                    dimension: 'ROWS',
+                    startIndex: rowNumber - 1,
+                    endIndex: rowNumber,
+                  },
+                },
+              },
+            ],
+          },
+        })
+      );
+
+      logger.info('Deleted synonym row', { rowNumber });
+    } catch (error) {
+      logger.error('Failed to delete synonym row', { rowNumber, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Read the Products header row and resolve column positions.
+   * Called before every write so a reordered sheet is never written by stale positions.
+   */
+  private async getProductLayout(): Promise<SheetLayout<ProductSheetRow>> {
+    const response = await this.request('values.get', () =>
+      this.sheets.spreadsheets.values.get({
+        spreadsheetId: this.spreadsheetId,
+        range: SHEET_RANGES.productsHeader,
+      })
+    );
+
+    const header = response.data.values?.[0] || [];
+    return buildLayout<ProductSheetRow>(TABS.products, header, PRODUCT_HEADERS);
+  }
+
+  /**
+   * Read the Synonyms header row and resolve column positions
+   */
+  private async getSynonymLayout(): Promise<SheetLayout<SynonymSheetRow>> {
+    const response = await this.request('values.get', () =>
+      this.sheets.spreadsheets.values.get({
+        spreadsheetId: this.spreadsheetId,
+        range: SHEET_RANGES.synonymsHeader,
+      })
+    );
+
+    const header = response.data.values?.[0] || [];
+    return buildLayout<SynonymSheetRow>(TABS.synonyms, header, SYNONYM_HEADERS);
+  }
+
+  /**
+   * Look up the numeric sheet ID of a tab (needed for row deletion)
+   */
+  private async getTabId(title: string): Promise<number> {
+    const response = await this.request('get', () =>
+      this.sheets.spreadsheets.get({
+        spreadsheetId: this.spreadsheetId,
+        fields: 'sheets.properties',
+      })
+    );
+
+    const sheet = response.data.sheets?.find((s) => s.properties?.title === title);
+    if (sheet?.properties?.sheetId === undefined || sheet.properties.sheetId === null) {
+      throw new Error(`Tab "${title}" not found in spreadsheet`);
+    }
+    return sheet.properties.sheetId;
+  }
+
+  /**
+   * Run a Sheets API call, retrying 429/5xx responses with exponential backoff.
+   * Only idempotent calls are retried; others fail on the first error.
+   */
+  private request<T>(label: string, fn: () => Promise<T>): Promise<T> {
+    return withRetry(fn, {
+      label: `sheets.${label}`,
+      maxRetries: IDEMPOTENT_CALLS.includes(label) ? config.google.maxRetries : 0,
+      baseDelayMs: config.google.retryBaseDelayMs,
+      shouldRetry: isRetryableSheetsError,
+    });
+  }
+}
@@ -0,0 +1,80 @@
+import { Product, RouteEstimate, SourcingRecommendation, SplitPart, SplitPlan } from '../types/product.js';
+import { config } from '../utils/config.js';
+
+export interface SplitOptions {
+  urgent: boolean;
+  // Pieces the customer needs quickly; defaults to SPLIT_URGENT_SHARE of the order
+  urgentQuantity: number | null;
+  // Route estimates for the product (see estimateRoutes)
+  routes: RouteEstimate[];
+}
+
+const ROUTE_NAMES: Record<SplitPart['route'], string> = {
+  local: 'locally',
+  china_air: 'from China by air',
+  china_sea: 'from China by sea',
+};
+
+/**
+ * Propose splitting an urgent order: a batch from the local supplier for what's needed
+ * now, and the rest from China (sea if offered, else air) at better pricing. With a
+ * deadline, the China part takes a route that meets it.
+ * Returns null when a split doesn't make sense, e.g. the remainder is below China MOQ
+ * or no China route meets the deadline.
+ */
+export function proposeSplit(
+  product: Product,
+  quantity: number | null,
+  recommendation: SourcingRecommendation,
+  options: SplitOptions
+): SplitPlan | null {
+  if (quantity === null || quantity <= 0 || recommendation.source === 'unknown') return null;
+  if (!options.urgent && options.urgentQuantity === null) return null;
+
+  const { local, china } = product.sourcing;
+  const localRoute = options.routes.find((r) => r.route === 'local' && r.available);
+  // Sea before air, but with a deadline only a route that meets it
+  const chinaRoutes = ['china_sea', 'china_air']
+    .map((route) => options.routes.find((r) => r.route === route && r.available))
+    .filter((r): r is RouteEstimate => r !== undefined);
+  const chinaRoute = chinaRoutes.some((r) => r.feasible !== null)
+    ? chinaRoutes.find((r) => r.feasible === true)
+    : chinaRoutes[0];
+  if (!localRoute || !chinaRoute) return null;
+
+  // The local batch must still meet the local MOQ
+  const wanted = options.urgentQuantity ?? Math.ceil(quantity * config.sourcing.splitUrgentShare);
+  const localQuantity = Math.max(wanted, local.moq ?? 0);
+  const chinaQuantity = quantity - localQuantity;
+  if (chinaQuantity <= 0 || (china.moq !== null && chinaQuantity < china.moq)) return null;
+
+  const parts: SplitPart[] = [
+    {
+      source: 'local',
+      route: 'local',
+      quantity: localQuantity,
+      supplier: local.supplier || undefined,
+      moq: local.moq || undefined,
+      leadTime: localRoute.leadTime,
+      estimatedReadyDate: localRoute.estimatedReadyDate,
+    },
+    {
+      source: 'china',
+      route: chinaRoute.route,
+      quantity: chinaQuantity,
+      moq: china.moq || undefined,
+      leadTime: chinaRoute.leadTime,
+      estimatedReadyDate: chinaRoute.estimatedReadyDate,
+    },
+  ];
+
+  const describe = (part: SplitPart) =>
+    `${part.quantity} pcs ${ROUTE_NAMES[part.route]}` +
+    (part.estimatedReadyDate ? ` (ready ${part.estimatedReadyDate})` : '');
+
+  return {
+    reason: `Urgent batch of ${describe(parts[0])}, remaining ${describe(parts[1])} at better pricing`,
+    totalQuantity: quantity,
+    parts,
+  };
+}
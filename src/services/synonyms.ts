@@ -0,0 +1,94 @@
+import { Synonym } from '../types/product.js';
+import { logger } from '../utils/logger.js';
+import { normalize, normalizeForSynonym } from '../utils/helpers.js';
+import { productRepository } from './repository.js';
+import { cacheService } from './cache.js';
+import { FIRST_DATA_ROW, toSynonym } from './layout.js';
+
+export interface SynonymEntry {
+  rowNumber: number;
+  synonym: Synonym;
+}
+
+class SynonymService {
+  /**
+   * Read the current Synonyms rows with their row numbers (blank rows skipped)
+   */
+  async getEntries(): Promise<SynonymEntry[]> {
+    const { rows } = await productRepository.getSynonymSheet();
+    return rows
+      .map((row, index) => ({ rowNumber: index + FIRST_DATA_ROW, synonym: toSynonym(row) }))
+      .filter((entry) => entry.synonym.customerSays.trim() !== '');
+  }
+
+  /**
+   * Find the entry for a customer term (case and spacing insensitive)
+   */
+  findEntry(entries: SynonymEntry[], customerSays: string): SynonymEntry | undefined {
+    const target = normalize(customerSays);
+    return entries.find((entry) => normalize(entry.synonym.customerSays) === target);
+  }
+
+  /**
+   * Find entries whose customer term collides with this one (including plural/singular
+   * forms) but point at a different product. `ignore` excludes the entry being edited.
+   */
+  findConflicts(
+    entries: SynonymEntry[],
+    customerSays: string,
+    weCallIt: string,
+    ignore?: SynonymEntry
+  ): SynonymEntry[] {
+    const variants = normalizeForSynonym(customerSays);
+    return entries.filter(
+      (entry) =>
+        entry !== ignore &&
+        normalize(entry.synonym.weCallIt) !== normalize(weCallIt) &&
+        normalizeForSynonym(entry.synonym.customerSays).some((v) => variants.includes(v))
+    );
+  }
+
+  /**
+   * Add a synonym to the sheet and the cache
+   */
+  async create(synonym: Synonym): Promise<Synonym> {
+    await productRepository.appendSynonym(synonym);
+    cacheService.setSynonyms([...cacheService.getSynonyms(), synonym]);
+
+    logger.info('Synonym created', { customerSays: synonym.customerSays, weCallIt: synonym.weCallIt });
+    return synonym;
+  }
+
+  /**
+   * Overwrite a synonym in the sheet and the cache
+   */
+  async update(entry: SynonymEntry, synonym: Synonym): Promise<Synonym> {
+    await productRepository.updateSynonym(entry.rowNumber, synonym);
+
+    const previous = normalize(entry.synonym.customerSays);
+    cacheService.setSynonyms(
+      cacheService.getSynonyms().map((s) => (normalize(s.customerSays) === previous ? synonym : s))
+    );
+
+    logger.info('Synonym updated', {
+      rowNumber: entry.rowNumber,
+      customerSays: synonym.customerSays,
+      weCallIt: synonym.weCallIt,
+    });
+    return synonym;
+  }
+
+  /**
+   * Remove a synonym from the sheet and the cache
+   */
+  async remove(entry: SynonymEntry): Promise<void> {
+    await productRepository.deleteSynonym(entry.rowNumber);
+
+    const target = normalize(entry.synonym.customerSays);
+    cacheService.setSynonyms(cacheService.getSynonyms().filter((s) => normalize(s.customerSays) !== target));
+
+    logger.info('Synonym deleted', { rowNumber: entry.rowNumber, customerSays: entry.synonym.customerSays });
+  }
+}
+
+export const synonymService = new SynonymService();
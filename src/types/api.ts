@@ -1,4 +1,17 @@
-import { Product, ProductMatch, Synonym, SourcingRecommendation } from './product.js';
+import {
+  Product,
+  ProductMatch,
+  Synonym,
+  SourcingRecommendation,
+  MatchReason,
+  ColorMatchType,
+  ProductAlternative,
+  SynonymCandidate,
+  SynonymCheck,
+  FieldMatchTrace,
+  ColorAvailability,
+} from './product.js';
+import { ProductSheetRow } from './sheets.js';
 
 // Generic API response wrapper
 export interface ApiResponse<T> {
@@ -15,12 +28,16 @@ export interface ApiError {
 
 // Health check
 export interface HealthCheckResponse {
-  status: 'ok' | 'error';
+  status: 'ok' | 'degraded' | 'error';
   timestamp: string;
   cache: {
     products: number;
     synonyms: number;
     lastRefresh: string;
+    dataSource: 'repository' | 'snapshot' | 'none';
+    dataAsOf: string | null;
+    staleSeconds: number | null;
+    lastError: string | null;
   };
 }
 
@@ -28,6 +45,13 @@ export interface HealthCheckResponse {
 export interface ProductSearchRequest {
   query: string;
   includeSourcing?: boolean;
+  // Include a trace of synonym checks and matched fields (also ?explain=true)
+  explain?: boolean;
+}
+
+// explain=true trace at request level; per-product traces sit on each product
+export interface RequestTrace {
+  synonymChecks: SynonymCheck[];
 }
 
 export interface ProductSearchResponse {
@@ -35,6 +59,8 @@ export interface ProductSearchResponse {
   synonymResolved: string | null;
   products: Array<{
     name: string;
+    score: number;
+    matchReason: MatchReason;
     category: string;
     url: string;
     websiteColors: string[];
@@ -53,8 +79,11 @@ export interface ProductSearchResponse {
         colors: string;
       };
     };
+    trace?: { matchedOn: FieldMatchTrace };
   }>;
   totalFound: number;
+  // Only present with explain=true
+  trace?: RequestTrace;
 }
 
 // Availability check
@@ -62,6 +91,44 @@ export interface AvailabilityRequest {
   query: string;
   quantity?: number;
   urgent?: boolean;
+  // YYYY-MM-DD date the order must be ready by (overrides a deadline mentioned in the query)
+  deadline?: string;
+  // Pieces needed urgently; the rest may be proposed from China in a split plan
+  urgentQuantity?: number;
+  // Include a trace of synonym checks, matched fields, colour lookups and sourcing rules
+  explain?: boolean;
+  // Keep context across queries so follow-ups ("what about in navy?") build on earlier ones
+  conversationId?: string;
+}
+
+// Fields of `parsed` in availability responses
+export type ParsedField =
+  | 'product'
+  | 'color'
+  | 'quantity'
+  | 'urgent'
+  | 'deadline'
+  | 'deliveryArea'
+  | 'decorationMethod'
+  | 'printColors'
+  | 'packaging'
+  | 'requirements';
+
+export interface ConversationTurn {
+  id: string;
+  // 1 for the first query in the conversation
+  turn: number;
+  // Whether anything was carried over from an earlier query
+  followUp: boolean;
+  // Fields taken from the earlier query, and fields this query set or changed
+  inheritedFields: ParsedField[];
+  newFields: ParsedField[];
+  expiresAt: string;
+}
+
+export interface ColorLineAvailability extends ColorLine {
+  // Null when no product matched
+  colorMatch: ColorAvailability | null;
 }
 
 export interface AvailabilityResponse {
@@ -70,15 +137,52 @@ export interface AvailabilityResponse {
     product: string;
     color: string | null;
     quantity: number | null;
+    quantityDetail: QuantityDetail | null;
+    colorLines: ColorLine[];
     urgent: boolean;
+    // From the request body, else as parsed from the query
+    deadline: string | null;
+    deliveryArea: string | null;
+    decorationMethod: DecorationMethod | null;
+    printColors: number | null;
+    packaging: string | null;
+    requirements: string[];
   };
   synonymResolved: string | null;
+  // Every synonym row the product term matched, best first
+  synonymCandidates: SynonymCandidate[];
+  // Several synonyms or products fit the term about equally well
+  ambiguous: boolean;
+  clarifyingQuestion: string | null;
   availability: {
     found: boolean;
     colorAvailable: boolean;
+    // How closely the best product matches the requested colour (null when no colour was asked for)
+    colorMatchType: ColorMatchType | null;
     matchingProducts: ProductMatch[];
+    // Other products worth offering when nothing matched or the colour isn't available
+    alternatives: ProductAlternative[];
+    // Whether the best product comes in each colour of parsed.colorLines
+    colorLines: ColorLineAvailability[];
   };
   summary: string;
+  // Only present with explain=true
+  trace?: RequestTrace;
+  // Only present with a conversationId
+  conversation?: ConversationTurn;
+}
+
+// Product sourcing update (VA-owned columns only)
+export type ProductUpdateRequest = Partial<
+  Record<keyof ProductSheetRow, string | number | boolean | string[] | null>
+>;
+
+export interface ProductUpdateResponse {
+  url: string;
+  rowNumber: number;
+  updatedFields: string[];
+  lastUpdated: string;
+  product: Product;
 }
 
 // Synonyms
@@ -90,6 +194,23 @@ export interface SynonymsResponse {
   total: number;
 }
 
+export interface SynonymCreateRequest {
+  customerSays: string;
+  weCallIt: string;
+  notes?: string;
+}
+
+export interface SynonymUpdateRequest {
+  customerSays?: string;
+  weCallIt?: string;
+  notes?: string;
+}
+
+export interface SynonymResponse {
+  synonym: Synonym;
+  matchedProducts: string[];
+}
+
 // Scraper
 export interface ScraperRunRequest {
   mode?: 'incremental' | 'full';
@@ -98,6 +219,18 @@ export interface ScraperRunRequest {
   limit?: number;
 }
 
+export interface ScraperFieldChange {
+  field: 'productName' | 'category' | 'colorsOnWebsite';
+  before: string;
+  after: string;
+}
+
+export interface ScraperRowChange {
+  url: string;
+  rowNumber: number;
+  fields: ScraperFieldChange[];
+}
+
 export interface ScraperRunResponse {
   mode: string;
   startedAt: string;
@@ -107,8 +240,11 @@ export interface ScraperRunResponse {
     newProducts: number;
     updatedProducts: number;
     unchanged: number;
+    removedProducts: number;
+    restoredProducts: number;
     errors: number;
   };
+  changes: ScraperRowChange[];
 }
 
 // Cache refresh
@@ -118,19 +254,75 @@ export interface CacheRefreshResponse {
   refreshTimeMs: number;
 }
 
+// How the customer wants their logo applied
+export type DecorationMethod =
+  | 'print'
+  | 'screen_print'
+  | 'pad_print'
+  | 'digital_print'
+  | 'embroidery'
+  | 'engraving'
+  | 'debossing'
+  | 'embossing'
+  | 'heat_transfer'
+  | 'sublimation';
+
+// Order details mentioned alongside the product request
+export interface QueryDetails {
+  // YYYY-MM-DD date the customer needs the order by
+  deadline: string | null;
+  // Where to deliver, as the customer wrote it ("Jurong", "our Changi office")
+  deliveryArea: string | null;
+  decorationMethod: DecorationMethod | null;
+  // Number of print colours in the logo ("2-colour print")
+  printColors: number | null;
+  // Packaging asked for ("gift box", "individual polybag")
+  packaging: string | null;
+  // Anything else the customer asked for, in their words
+  requirements: string[];
+}
+
+// Unit a quantity was counted in; "piece" unless dozens, cartons, boxes... were mentioned
+export type QuantityUnit = 'piece' | 'dozen' | 'carton' | 'box' | 'pack' | 'case' | 'bundle';
+
+// A quantity as the customer wrote it: "500-1000 pcs", "2 dozen", "10 cartons of 50", "1.5k"
+export interface QuantityDetail {
+  text: string;
+  unit: QuantityUnit;
+  // Units as written (10 for "10 cartons of 50"); min and max differ for a range
+  unitCount: { min: number; max: number };
+  // Pieces per unit (12 for a dozen); null when a carton or box size wasn't given
+  unitSize: number | null;
+  // Total pieces; null when the unit size is unknown
+  min: number | null;
+  max: number | null;
+}
+
+// One colour of a product ordered in several ("200 red and 300 blue mugs")
+export interface ColorLine {
+  color: string;
+  quantity: number | null;
+  quantityDetail: QuantityDetail;
+}
+
 // Parsed query from Claude
-export interface ParsedQuery {
+export interface ParsedQuery extends QueryDetails {
   productType: string;
   color: string | null;
+  // Pieces: the low end of a range, or the total of colorLines
   quantity: number | null;
+  quantityDetail: QuantityDetail | null;
+  // Per-colour quantities; empty unless several colours were given their own quantity
+  colorLines: ColorLine[];
   urgent: boolean;
 }
 
-// Multi-product support types
-export interface ParsedQueryItem {
+// Multi-product support types (a product in several colours is one item per colour)
+export interface ParsedQueryItem extends QueryDetails {
   productType: string;
   color: string | null;
   quantity: number | null;
+  quantityDetail: QuantityDetail | null;
   urgent: boolean;
 }
 
@@ -139,9 +331,53 @@ export interface MultiParsedQuery {
   globalUrgent: boolean;
 }
 
+// Why a parse fell back to the keyword rules
+export type ParserFallbackReason = 'timeout' | 'api_error' | 'invalid_output' | 'no_fixture' | 'error';
+
+export interface ParserCallStats {
+  requests: number;
+  // Answered from the parse cache without calling the provider
+  cached: number;
+  // Parsed by the configured provider (including after a repair)
+  parsed: number;
+  // Parsed only after one repair round-trip for invalid output
+  repaired: number;
+  fallbacks: number;
+  fallbackReasons: Record<ParserFallbackReason, number>;
+  lastFallback: { reason: ParserFallbackReason; message: string; at: string } | null;
+}
+
+export interface ParseCacheStats {
+  enabled: boolean;
+  entries: number;
+  maxEntries: number;
+  ttlMs: number;
+  // File the cache is kept in across restarts, or null for memory only
+  path: string | null;
+  hits: number;
+  misses: number;
+  // Dropped as least recently used, or found past their TTL
+  evictions: number;
+  expired: number;
+  lastClearedAt: string | null;
+}
+
+export interface ParserStatsResponse {
+  provider: string;
+  model: string | null;
+  // Prompt version cached parses are keyed on; null for providers that aren't cached
+  promptVersion: string | null;
+  single: ParserCallStats;
+  multi: ParserCallStats;
+  cache: ParseCacheStats;
+}
+
 export interface MultiAvailabilityRequest {
   query: string;
   urgent?: boolean;
+  // YYYY-MM-DD date every item must be ready by
+  deadline?: string;
+  explain?: boolean;
 }
 
 export interface ProductAvailabilityResult {
@@ -150,15 +386,34 @@ export interface ProductAvailabilityResult {
     product: string;
     color: string | null;
     quantity: number | null;
+    quantityDetail: QuantityDetail | null;
     urgent: boolean;
+    // From the request body, else as parsed from the query
+    deadline: string | null;
+    deliveryArea: string | null;
+    decorationMethod: DecorationMethod | null;
+    printColors: number | null;
+    packaging: string | null;
+    requirements: string[];
   };
   synonymResolved: string | null;
+  // Every synonym row the product term matched, best first
+  synonymCandidates: SynonymCandidate[];
+  // Several synonyms or products fit the term about equally well
+  ambiguous: boolean;
+  clarifyingQuestion: string | null;
   availability: {
     found: boolean;
     colorAvailable: boolean;
+    // How closely the best product matches the requested colour (null when no colour was asked for)
+    colorMatchType: ColorMatchType | null;
     matchingProducts: ProductMatch[];
+    // Other products worth offering when nothing matched or the colour isn't available
+    alternatives: ProductAlternative[];
   };
   summary: string;
+  // Only present with explain=true
+  trace?: RequestTrace;
 }
 
 export interface MultiAvailabilityResponse {
@@ -172,16 +427,87 @@ export interface MultiAvailabilityResponse {
 // Product term resolution (for Price Agent)
 export interface ResolveRequest {
   terms: string[];
+  // Minimum similarity (0-1) for approximate matches; defaults to MATCHER_FUZZY_THRESHOLD
+  fuzzyThreshold?: number;
+  // Include the resolution steps tried for each term
+  explain?: boolean;
 }
 
 export interface ProductResolution {
   input: string;
   canonicalName: string | null;
   confidence: 'exact' | 'synonym' | 'fuzzy' | 'not_found';
+  // 0-1 closeness of input to canonicalName (1 for exact and synonym, 0 when not found)
+  similarity: number;
   alternates: string[];
   category: string | null;
+  // Several products fit the term about equally well
+  ambiguous: boolean;
+  clarifyingQuestion: string | null;
+  // Synonym rows the term matched, best first (empty unless resolved by synonym)
+  synonymCandidates: SynonymCandidate[];
+  // Only present with explain=true
+  trace?: ResolutionTrace;
+}
+
+export interface ResolutionStep {
+  step: 'exact' | 'synonym' | 'partial' | 'fuzzy';
+  matched: boolean;
+  // Best products the step found, with search score (exact, partial) or similarity (fuzzy)
+  products: Array<{ name: string; score: number; matchedOn?: string }>;
+}
+
+export interface ResolutionTrace {
+  // Steps tried in order, up to the one that resolved the term
+  steps: ResolutionStep[];
+  synonymCheck: SynonymCheck | null;
+  // Field of the resolved product that matched (exact and partial steps)
+  matchedOn: FieldMatchTrace | null;
 }
 
 export interface ResolveResponse {
   resolutions: ProductResolution[];
 }
+
+// Data quality report
+export type DataQualityIssueCode =
+  | 'UNPARSEABLE_NUMBER'
+  | 'AMBIGUOUS_BOOLEAN'
+  | 'UNPARSEABLE_LEAD_TIME'
+  | 'DUPLICATE_URL'
+  | 'DUPLICATE_NAME'
+  | 'UNKNOWN_SYNONYM_TARGET'
+  | 'CHINA_MOQ_MISSING'
+  | 'SOURCING_MISSING';
+
+export interface DataQualityIssue {
+  column: string;
+  code: DataQualityIssueCode;
+  severity: 'error' | 'warning';
+  value: string;
+  message: string;
+}
+
+export interface DataQualityRowReport {
+  tab: 'Products' | 'Synonyms';
+  row: number;
+  label: string;
+  issues: DataQualityIssue[];
+}
+
+export interface DataQualityResponse {
+  checkedAt: string;
+  productsChecked: number;
+  synonymsChecked: number;
+  unknownColumns: {
+    products: string[];
+    synonyms: string[];
+  };
+  totals: {
+    rowsWithIssues: number;
+    errors: number;
+    warnings: number;
+    byCode: Partial<Record<DataQualityIssueCode, number>>;
+  };
+  rows: DataQualityRowReport[];
+}
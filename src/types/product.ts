@@ -38,27 +38,275 @@ export interface Synonym {
   notes: string;
 }
 
+// How a customer term matched a synonym row: the whole term, or a synonym inside it
+export type SynonymMatchType = 'direct' | 'partial';
+
+export interface SynonymCandidate {
+  customerSays: string;
+  weCallIt: string;
+  matchType: SynonymMatchType;
+  // 1 for direct matches; partial matches score 0.5-0.9 by how much of the term the synonym covers
+  score: number;
+  // Products the synonym's target matches, best first (at most four); only on candidates
+  // scoring about the same as the best, the ones resolution could pick
+  products?: string[];
+}
+
+export interface SynonymResolution {
+  // Target of the best candidate, or null when no synonym matches
+  resolved: string | null;
+  // Every matching synonym row, best first
+  candidates: SynonymCandidate[];
+  // Several targets, or several products for the chosen target, fit equally well
+  ambiguous: boolean;
+  // Question for the customer when ambiguous, e.g. "Did you mean Tote Bag or Drawstring Bag?"
+  clarifyingQuestion: string | null;
+}
+
+export type ColorFamily =
+  | 'white'
+  | 'black'
+  | 'grey'
+  | 'red'
+  | 'pink'
+  | 'orange'
+  | 'yellow'
+  | 'green'
+  | 'blue'
+  | 'purple'
+  | 'brown'
+  | 'clear';
+
+// How closely an available colour matches the requested one
+export type ColorMatchType = 'exact' | 'family' | 'nearest';
+
 export interface ColorAvailability {
   available: boolean;
   source: 'website' | 'local' | 'china' | 'any';
+  // Set when a specific colour was requested and found
+  matchType?: ColorMatchType;
+  matchedColor?: string;
+  score?: number;
   note?: string;
 }
 
+export type SourcingSource = 'local' | 'china' | 'unknown';
+
 export interface SourcingRecommendation {
-  source: 'local' | 'china' | 'unknown';
+  source: SourcingSource;
   supplier?: string;
   moq?: number;
   leadTime?: string;
   reason: string;
   warning?: string;
+  // ID of the sourcing rule that produced this recommendation
+  rule: string;
+  // Alternative plan splitting the order across local and China (urgent orders only)
+  splitPlan?: SplitPlan;
+}
+
+export interface SplitPart {
+  source: 'local' | 'china';
+  route: SourcingRoute;
+  quantity: number;
+  supplier?: string;
+  moq?: number;
+  leadTime: LeadTime | null;
+  // YYYY-MM-DD, null when the lead time is unknown
+  estimatedReadyDate: string | null;
+}
+
+export interface SplitPlan {
+  reason: string;
+  totalQuantity: number;
+  parts: SplitPart[];
+}
+
+// Conditions a sourcing rule tests; omitted conditions always pass
+export interface SourcingRuleConditions {
+  urgent?: boolean;
+  // Whether the request gave a quantity at all
+  quantityKnown?: boolean;
+  // Inclusive bounds; a rule with either bound never fires when quantity is unknown
+  minQuantity?: number;
+  maxQuantity?: number;
+  // Local supplier filled in / China Available? = Yes
+  hasLocal?: boolean;
+  hasChina?: boolean;
+  chinaAir?: boolean;
+  chinaSea?: boolean;
+  // Quantity and China MOQ both known and compared
+  belowChinaMoq?: boolean;
+  meetsChinaMoq?: boolean;
+  // Product category is one of these (case-insensitive)
+  categories?: string[];
+  // Quantity and local MOQ both known and compared
+  belowLocalMoq?: boolean;
+  meetsLocalMoq?: boolean;
+  // A deadline was given and this source's lead time does / doesn't meet it
+  localMeetsDeadline?: boolean;
+  chinaMeetsDeadline?: boolean;
+}
+
+/**
+ * One declarative sourcing rule. Rules run in ascending priority order and the
+ * first enabled rule whose conditions all hold decides the recommendation.
+ */
+export interface SourcingRule {
+  id: string;
+  priority: number;
+  enabled: boolean;
+  when: SourcingRuleConditions;
+  recommend: SourcingSource;
+  // May use {product}, {quantity}, {chinaMoq}, {localMoq} and {deadline}
+  reason: string;
+  warning?: string;
+}
+
+// Why a product matched a search term, strongest first
+export type MatchReason = 'exact_name' | 'name_tokens' | 'name_substring' | 'category' | 'other_names';
+
+export interface ProductSearchHit {
+  product: Product;
+  score: number;
+  matchReason: MatchReason;
+}
+
+export interface FuzzyHit {
+  product: Product;
+  // 0-1, where 1 is identical after ignoring case, spaces and punctuation
+  similarity: number;
+  // The name, other name or synonym the term was closest to
+  matchedOn: string;
+}
+
+// Lead time in working days
+export interface LeadTime {
+  minDays: number;
+  maxDays: number;
+}
+
+export type SourcingRoute = 'local' | 'china_air' | 'china_sea';
+
+export interface RouteEstimate {
+  route: SourcingRoute;
+  available: boolean;
+  leadTime: LeadTime | null;
+  // YYYY-MM-DD ready dates at the short and long end of the lead time
+  earliestReadyDate: string | null;
+  estimatedReadyDate: string | null;
+  // Whether the long end meets the deadline (null when the route or lead time is unknown)
+  feasible: boolean | null;
+  // Only the short end of the lead time meets the deadline
+  atRisk: boolean;
+  note?: string;
+}
+
+export interface DeliveryEstimate {
+  deadline: string;
+  orderDate: string;
+  // Singapore working days between today and the deadline
+  workingDaysToDeadline: number;
+  // Best route for the recommended source and its verdict
+  route: SourcingRoute | null;
+  estimatedReadyDate: string | null;
+  feasible: boolean | null;
+  routes: RouteEstimate[];
 }
 
 export interface ProductMatch {
   product: Product;
+  score: number;
+  matchReason: MatchReason;
   colorMatch: {
     onWebsite: boolean;
     fromLocal: boolean;
     fromChina: boolean;
+    matchType: ColorMatchType | null;
+    matchedColor: string | null;
+    // True when the colour is only available as a same-family or nearest-shade substitute
+    closeMatch: boolean;
   };
   recommendation: SourcingRecommendation;
+  // Only present when a deadline was given
+  delivery?: DeliveryEstimate;
+  // Only present with explain=true
+  trace?: ProductMatchTrace;
+}
+
+// explain=true traces: how a request was matched and why a source was recommended
+
+export interface SynonymCheck {
+  // Which text was looked up: the raw query or the parsed product type
+  stage: 'query' | 'parsed';
+  term: string;
+  resolved: string | null;
+  candidates: SynonymCandidate[];
+}
+
+export interface FieldMatchTrace {
+  reason: MatchReason;
+  field: 'name' | 'category' | 'otherNames';
+  // The product's value that matched, e.g. the other name "badge case"
+  value: string;
+}
+
+export interface ColorLookupStep {
+  source: 'website' | 'local' | 'china';
+  colors: string[];
+  // null when nothing in this source matched; 'any' when China takes any Pantone
+  matchType: ColorMatchType | 'any' | null;
+  matchedColor: string | null;
+  score: number | null;
+}
+
+// Request and product facts the sourcing rules are tested against
+export interface SourcingFacts {
+  urgent: boolean;
+  quantity: number | null;
+  hasLocal: boolean;
+  hasChina: boolean;
+  chinaAir: boolean;
+  chinaSea: boolean;
+  chinaMoq: number | null;
+  localMoq: number | null;
+  category: string;
+  localMeetsDeadline: boolean | null;
+  chinaMeetsDeadline: boolean | null;
+}
+
+export interface RuleEvaluation {
+  rule: string;
+  priority: number;
+  // source_missing: conditions held but the product has no such source
+  outcome: 'matched' | 'conditions_failed' | 'disabled' | 'source_missing';
+  // Conditions that didn't hold (conditions_failed only)
+  failedConditions: string[];
+}
+
+export interface SourcingTrace {
+  inputs: SourcingFacts;
+  deadline: string | null;
+  // Rules in the order they were tried, up to the one that decided
+  rules: RuleEvaluation[];
+}
+
+export interface ProductMatchTrace {
+  matchedOn: FieldMatchTrace;
+  // Sources checked for the requested colour, in order (empty when no colour was asked for)
+  color: ColorLookupStep[];
+  sourcing: SourcingTrace;
+}
+
+// Why a product was suggested in place of the one requested
+export type AlternativeReason = 'same_category' | 'shared_words' | 'has_color';
+
+export interface ProductAlternative {
+  product: Product;
+  score: number;
+  reasons: AlternativeReason[];
+  // Short explanation for the customer, e.g. "Shares "badge" with the search; available in Red"
+  reason: string;
+  // Colour the product comes in for the request (null when no colour was asked for)
+  matchedColor: string | null;
 }
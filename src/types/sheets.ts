@@ -1,4 +1,5 @@
 // Raw row data from Google Sheets
+// Column letters below are the default layout; columns are located by header name at runtime
 
 export interface ProductSheetRow {
   // Column A - Product Name (Scraper)
@@ -44,6 +45,31 @@ export interface SynonymSheetRow {
   notes: string;
 }
 
+export interface SourcingRuleSheetRow {
+  ruleId: string;
+  priority: string;
+  enabled: string;
+  recommend: string;
+  urgent: string;
+  quantityKnown: string;
+  minQuantity: string;
+  maxQuantity: string;
+  hasLocal: string;
+  hasChina: string;
+  chinaAir: string;
+  chinaSea: string;
+  belowChinaMoq: string;
+  meetsChinaMoq: string;
+  belowLocalMoq: string;
+  meetsLocalMoq: string;
+  localMeetsDeadline: string;
+  chinaMeetsDeadline: string;
+  // Comma-separated
+  categories: string;
+  reason: string;
+  warning: string;
+}
+
 // For writing scraper data (columns A-E only)
 export interface ScraperRowData {
   productName: string;
@@ -52,3 +78,25 @@ export interface ScraperRowData {
   otherNames: string; // Always empty from scraper
   colorsOnWebsite: string;
 }
+
+// Column positions resolved from a tab's header row
+export interface SheetLayout<T> {
+  // Zero-based column index for each known field
+  columns: Record<keyof T, number>;
+  // Non-empty header cells that don't map to a known field
+  unknownColumns: string[];
+  // Number of columns in the header row
+  width: number;
+}
+
+// A tab's rows read by header, with the layout they were read through
+export interface SheetData<T> {
+  layout: SheetLayout<T>;
+  rows: T[];
+}
+
+// Cell writes for one existing product row (undefined fields are left untouched)
+export interface ProductRowUpdate {
+  rowNumber: number;
+  fields: Partial<ProductSheetRow>;
+}
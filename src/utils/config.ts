@@ -14,17 +14,63 @@ function optionalEnv(name: string, defaultValue: string): string {
   return process.env[name] || defaultValue;
 }
 
+function requireEnvWhen(required: boolean, name: string): string {
+  return required ? requireEnv(name) : optionalEnv(name, '');
+}
+
+type DataSourceType = 'sheets' | 'file';
+
+function parseDataSource(value: string): DataSourceType {
+  if (value !== 'sheets' && value !== 'file') {
+    throw new Error(`Invalid PRODUCT_DATA_SOURCE "${value}". Must be "sheets" or "file".`);
+  }
+  return value;
+}
+
+type SourcingRulesSource = 'default' | 'file' | 'sheet';
+
+function parseSourcingRulesSource(value: string): SourcingRulesSource {
+  if (value !== 'default' && value !== 'file' && value !== 'sheet') {
+    throw new Error(`Invalid SOURCING_RULES_SOURCE "${value}". Must be "default", "file" or "sheet".`);
+  }
+  return value;
+}
+
+type ParserProviderType = 'anthropic' | 'rules' | 'fixtures';
+
+function parseParserProvider(value: string): ParserProviderType {
+  if (value !== 'anthropic' && value !== 'rules' && value !== 'fixtures') {
+    throw new Error(`Invalid PARSER_PROVIDER "${value}". Must be "anthropic", "rules" or "fixtures".`);
+  }
+  return value;
+}
+
+const dataSource = parseDataSource(optionalEnv('PRODUCT_DATA_SOURCE', 'sheets'));
+const useSheets = dataSource === 'sheets';
+const parserProvider = parseParserProvider(optionalEnv('PARSER_PROVIDER', 'anthropic'));
+
 export const config = {
   // Server
   port: parseInt(optionalEnv('PORT', '3001'), 10),
   nodeEnv: optionalEnv('NODE_ENV', 'development'),
   apiKey: requireEnv('API_KEY'),
 
-  // Google Sheets
+  // Product data source ("sheets" = Google Sheets, "file" = local JSON/CSV)
+  dataSource: {
+    type: dataSource,
+    path: optionalEnv('PRODUCT_DATA_PATH', './data'),
+  },
+
+  // Google Sheets (only required when PRODUCT_DATA_SOURCE=sheets)
   google: {
-    serviceAccountEmail: requireEnv('GOOGLE_SERVICE_ACCOUNT_EMAIL'),
-    privateKey: requireEnv('GOOGLE_PRIVATE_KEY').replace(/\\n/g, '\n'),
-    sheetId: requireEnv('PRODUCT_INTELLIGENCE_SHEET_ID'),
+    serviceAccountEmail: requireEnvWhen(useSheets, 'GOOGLE_SERVICE_ACCOUNT_EMAIL'),
+    privateKey: requireEnvWhen(useSheets, 'GOOGLE_PRIVATE_KEY').replace(/\\n/g, '\n'),
+    sheetId: requireEnvWhen(useSheets, 'PRODUCT_INTELLIGENCE_SHEET_ID'),
+    // Retries of reads and updates on 429/5xx responses, with exponential backoff from retryBaseDelayMs
+    maxRetries: parseInt(optionalEnv('SHEETS_MAX_RETRIES', '5'), 10),
+    retryBaseDelayMs: parseInt(optionalEnv('SHEETS_RETRY_BASE_DELAY_MS', '500'), 10),
+    // Max cell ranges per values.batchUpdate request
+    writeBatchSize: parseInt(optionalEnv('SHEETS_WRITE_BATCH_SIZE', '200'), 10),
   },
 
   // Firecrawl
@@ -37,13 +83,72 @@ export const config = {
     baseUrl: optionalEnv('MAGENTO_BASE_URL', 'https://www.easyprintsg.com'),
   },
 
-  // Anthropic
+  // Anthropic (only required when PARSER_PROVIDER=anthropic)
   anthropic: {
-    apiKey: requireEnv('ANTHROPIC_API_KEY'),
+    apiKey: requireEnvWhen(parserProvider === 'anthropic', 'ANTHROPIC_API_KEY'),
+  },
+
+  // Query parser ("anthropic" = Claude, "rules" = offline keyword parser,
+  // "fixtures" = replay recorded parses from a JSON file, for tests)
+  parser: {
+    provider: parserProvider,
+    model: optionalEnv('PARSER_MODEL', 'claude-3-haiku-20240307'),
+    // Response token limits for single- and multi-product parses
+    maxTokens: parseInt(optionalEnv('PARSER_MAX_TOKENS', '256'), 10),
+    multiMaxTokens: parseInt(optionalEnv('PARSER_MULTI_MAX_TOKENS', '1024'), 10),
+    // Per-request timeout before falling back to the keyword parser
+    timeoutMs: parseInt(optionalEnv('PARSER_TIMEOUT_MS', '10000'), 10),
+    fixturesPath: optionalEnv('PARSER_FIXTURES_PATH', './parser-fixtures.json'),
+    // Parses reused for the same query text and prompt version (maxEntries 0 disables;
+    // empty path keeps the cache in memory only)
+    cache: {
+      maxEntries: parseInt(optionalEnv('PARSER_CACHE_MAX', '1000'), 10),
+      ttlMs: parseInt(optionalEnv('PARSER_CACHE_TTL_MS', '86400000'), 10),
+      path: optionalEnv('PARSER_CACHE_PATH', ''),
+    },
+  },
+
+  // Matcher
+  matcher: {
+    // Minimum similarity (0-1) for typo-tolerant matches in term resolution
+    fuzzyThreshold: parseFloat(optionalEnv('MATCHER_FUZZY_THRESHOLD', '0.75')),
+    // Alternative products suggested when nothing matches or the colour isn't available
+    maxAlternatives: parseInt(optionalEnv('MATCHER_MAX_ALTERNATIVES', '3'), 10),
+  },
+
+  // Follow-up context kept per conversationId, dropped after ttlMs without a query
+  conversation: {
+    ttlMs: parseInt(optionalEnv('CONVERSATION_TTL_MS', '1800000'), 10),
+    maxConversations: parseInt(optionalEnv('CONVERSATION_MAX', '1000'), 10),
+  },
+
+  // Sourcing rules ("default" = built-in, "file" = JSON file, "sheet" = Sourcing Rules tab
+  // of the product data source). Reloaded on every cache refresh interval.
+  sourcing: {
+    rulesSource: parseSourcingRulesSource(optionalEnv('SOURCING_RULES_SOURCE', 'default')),
+    rulesPath: optionalEnv('SOURCING_RULES_PATH', './sourcing-rules.json'),
+    // Share of an urgent order proposed for the local batch when no urgent quantity is given
+    splitUrgentShare: parseFloat(optionalEnv('SPLIT_URGENT_SHARE', '0.2')),
+  },
+
+  // China lead times (production + freight), parsed into working days for deadline checks
+  leadTimes: {
+    chinaAir: optionalEnv('CHINA_AIR_LEAD_TIME', '15-20 working days'),
+    chinaSea: optionalEnv('CHINA_SEA_LEAD_TIME', '30-40 working days'),
+  },
+
+  // Working-day calendar: extra Singapore non-working dates (YYYY-MM-DD, comma-separated)
+  calendar: {
+    extraHolidays: optionalEnv('EXTRA_HOLIDAYS', '')
+      .split(',')
+      .map((d) => d.trim())
+      .filter((d) => d.length > 0),
   },
 
   // Cache
   cache: {
     refreshIntervalMs: parseInt(optionalEnv('CACHE_REFRESH_INTERVAL_MS', '300000'), 10),
+    // Last-known-good snapshot used when the data source is down (empty to disable)
+    snapshotPath: process.env.CACHE_SNAPSHOT_PATH ?? './.cache/snapshot.json',
   },
 };
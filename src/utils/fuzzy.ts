@@ -0,0 +1,79 @@
+/**
+ * Edit distance counting insertions, deletions, substitutions and adjacent
+ * transpositions ("lanyrad" -> "lanyard" is 1)
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+}
+
+/**
+ * Lowercase and drop everything but letters and digits, so "T-Shirt" equals "tshirt"
+ */
+export function compact(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Character trigrams of a string as given. Padded by default so short words still
+ * produce some; unpadded, every trigram also appears in any text containing the string.
+ */
+export function trigrams(value: string, padded: boolean = true): Set<string> {
+  const text = padded ? `  ${value} ` : value;
+  const result = new Set<string>();
+  for (let i = 0; i + 3 <= text.length; i++) {
+    result.add(text.slice(i, i + 3));
+  }
+  return result;
+}
+
+// Text prepared for similarity(): compacted, with its trigrams
+export interface FuzzyText {
+  text: string;
+  trigrams: Set<string>;
+}
+
+export function fuzzyText(value: string): FuzzyText {
+  const text = compact(value);
+  return { text, trigrams: trigrams(text) };
+}
+
+/**
+ * Similarity between two strings from 0 (unrelated) to 1 (same after compacting).
+ * Takes the better of edit-distance similarity and trigram (Dice) overlap.
+ * Either side may be prepared with fuzzyText() when it is compared many times.
+ */
+export function similarity(a: string | FuzzyText, b: string | FuzzyText): number {
+  const x = typeof a === 'string' ? fuzzyText(a) : a;
+  const y = typeof b === 'string' ? fuzzyText(b) : b;
+
+  if (x.text.length === 0 || y.text.length === 0) return 0;
+  if (x.text === y.text) return 1;
+
+  const editSimilarity = 1 - editDistance(x.text, y.text) / Math.max(x.text.length, y.text.length);
+
+  let shared = 0;
+  for (const gram of x.trigrams) {
+    if (y.trigrams.has(gram)) shared++;
+  }
+  const diceSimilarity = (2 * shared) / (x.trigrams.size + y.trigrams.size);
+
+  return Math.max(editSimilarity, diceSimilarity);
+}
@@ -16,6 +16,21 @@ export function isTruthy(value: string): boolean {
   return ['yes', 'true', '1', 'y', '✓', '✔'].includes(lower);
 }
 
+/**
+ * Check if a string represents an explicit falsy value
+ */
+export function isFalsy(value: string): boolean {
+  const lower = value.toLowerCase().trim();
+  return ['no', 'false', '0', 'n', '✗', '✘'].includes(lower);
+}
+
+/**
+ * Check if a string is a plain whole number (e.g. "500" or "1,000") with nothing else in it
+ */
+export function isPlainNumber(value: string): boolean {
+  return /^(\d{1,3}(,\d{3})+|\d+)$/.test(value.trim());
+}
+
 /**
  * Parse a number from string, returning null if invalid
  */
@@ -101,42 +116,6 @@ export function containsIgnoreCase(target: string, searchTerm: string): boolean
   return normalize(target).includes(normalize(searchTerm));
 }
 
-/**
- * Parse quantity from query text when not provided in request body
- * Handles formats like: "5000pcs", "5,000 pieces", "5k pcs", "qty: 5000"
- * Returns the largest quantity found (main order quantity)
- */
-export function parseQuantityFromQuery(query: string): number | null {
-  if (!query) return null;
-
-  const text = query.toLowerCase();
-  const quantities: number[] = [];
-
-  // Pattern 1: Numbers followed by pcs/pieces/units (e.g., "5000pcs", "5,000 pieces")
-  const matches1 = text.matchAll(/(\d{1,3}(?:,\d{3})+|\d+)\s*(?:pcs|pieces|units)/gi);
-  for (const match of matches1) {
-    const num = parseInt(match[1].replace(/,/g, ''), 10);
-    if (num > 0) quantities.push(num);
-  }
-
-  // Pattern 2: "5k pcs" format
-  const matches2 = text.matchAll(/(\d+)k\s*(?:pcs|pieces|units)?/gi);
-  for (const match of matches2) {
-    const num = parseInt(match[1], 10) * 1000;
-    if (num > 0) quantities.push(num);
-  }
-
-  // Pattern 3: "quantity: 5000" or "qty 5000"
-  const matches3 = text.matchAll(/(?:quantity|qty)[:\s]+(\d{1,3}(?:,\d{3})+|\d+)/gi);
-  for (const match of matches3) {
-    const num = parseInt(match[1].replace(/,/g, ''), 10);
-    if (num > 0) quantities.push(num);
-  }
-
-  // Return largest quantity (main order quantity)
-  return quantities.length > 0 ? Math.max(...quantities) : null;
-}
-
 /**
  * Generate a human-readable summary for availability response
  */
@@ -151,6 +130,7 @@ export function generateAvailabilitySummary(
 ): string {
   const colorPart = color ? `${color} ` : '';
   const qtyPart = quantity ? ` For ${quantity} pieces` : '';
+  const warningPart = warning ? ` ${warning}` : '';
 
   if (source === 'unknown') {
     return warning || `${colorPart}${productName} found but sourcing information is missing. Please update the product data.`;
@@ -159,9 +139,9 @@ export function generateAvailabilitySummary(
   if (source === 'local') {
     const supplierPart = supplier ? ` from ${supplier} (local supplier)` : ' from local supplier';
     const timePart = leadTime ? `: ${leadTime} lead time` : '';
-    return `${colorPart}${productName} available${supplierPart}.${qtyPart}${timePart}.`;
+    return `${colorPart}${productName} available${supplierPart}.${qtyPart}${timePart}.${warningPart}`;
   } else {
-    return `${colorPart}${productName} recommended from China.${qtyPart}: better pricing for larger quantities.`;
+    return `${colorPart}${productName} recommended from China.${qtyPart}: better pricing for larger quantities.${warningPart}`;
   }
 }
 
@@ -1,3 +1,6 @@
 export * from './config.js';
 export * from './logger.js';
 export * from './helpers.js';
+export * from './csv.js';
+export * from './retry.js';
+export * from './fuzzy.js';
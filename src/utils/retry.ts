@@ -0,0 +1,52 @@
+import { logger } from './logger.js';
+
+export interface RetryOptions {
+  // Name used in log messages
+  label: string;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs?: number;
+  shouldRetry: (error: unknown) => boolean;
+}
+
+/**
+ * Run an async operation, retrying with exponential backoff and jitter while
+ * `shouldRetry` accepts the error. A numeric Retry-After header takes precedence, up to maxDelayMs.
+ */
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> {
+  const { label, maxRetries, baseDelayMs, maxDelayMs = 30000, shouldRetry } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= maxRetries || !shouldRetry(error)) {
+        throw error;
+      }
+
+      const retryAfterMs = getRetryAfterMs(error);
+      const backoffMs = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt) + Math.random() * baseDelayMs;
+      const delayMs = retryAfterMs === null ? backoffMs : Math.min(maxDelayMs, retryAfterMs);
+
+      logger.warn('Retrying after transient error', {
+        label,
+        attempt: attempt + 1,
+        maxRetries,
+        delayMs: Math.round(delayMs),
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+}
+
+/**
+ * Read a Retry-After header (in seconds) from an HTTP client error, if present
+ */
+function getRetryAfterMs(error: unknown): number | null {
+  const headers = (error as { response?: { headers?: Record<string, unknown> } })?.response?.headers;
+  const value = headers?.['retry-after'];
+  const seconds = typeof value === 'string' || typeof value === 'number' ? Number(value) : NaN;
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : null;
+}